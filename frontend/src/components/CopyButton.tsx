@@ -0,0 +1,58 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useTranslation } from 'react-i18next';
+
+interface CopyButtonProps {
+  value: string;
+  className?: string;
+  title?: string;
+}
+
+// 一键复制按钮，复制成功后短暂显示对勾
+const CopyButton: React.FC<CopyButtonProps> = ({ value, className = '', title }) => {
+  const { t } = useTranslation();
+  const [copied, setCopied] = useState(false);
+  const timeoutRef = useRef<number | null>(null);
+  
+  // 清除提示的定时器
+  useEffect(() => {
+    return () => {
+      if (timeoutRef.current) {
+        window.clearTimeout(timeoutRef.current);
+      }
+    };
+  }, []);
+  
+  const handleCopy = (e: React.MouseEvent) => {
+    // 避免触发外层的点击事件（例如选中邮件）
+    e.stopPropagation();
+    
+    navigator.clipboard.writeText(value)
+      .then(() => {
+        setCopied(true);
+        
+        // 2秒后恢复图标
+        if (timeoutRef.current) {
+          window.clearTimeout(timeoutRef.current);
+        }
+        timeoutRef.current = window.setTimeout(() => {
+          setCopied(false);
+        }, 2000);
+      })
+      .catch(() => {
+        setCopied(false);
+      });
+  };
+  
+  return (
+    <button
+      type="button"
+      onClick={handleCopy}
+      className={`inline-flex items-center transition-colors ${copied ? 'text-green-600' : 'text-navi-secondary hover:text-navi-primary'} ${className}`}
+      title={copied ? t('common.copied') : (title || t('common.copy'))}
+    >
+      <i className={`fas ${copied ? 'fa-check' : 'fa-copy'}`}></i>
+    </button>
+  );
+};
+
+export default CopyButton;
@@ -1,15 +1,20 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useContext } from 'react';
 import { useTranslation } from 'react-i18next';
+import { MailboxContext } from '../contexts/MailboxContext';
+
+// 可选的有效期（分钟），会按后端配置的范围过滤
+const LIFETIME_OPTIONS = [10, 60, 24 * 60, 3 * 24 * 60, 7 * 24 * 60];
 
 interface CreateMailboxFormProps {
-  onMailboxCreated: (address: string) => void;
+  onMailboxCreated: (mailbox: Mailbox) => void;
 }
 
 const CreateMailboxForm: React.FC<CreateMailboxFormProps> = ({ onMailboxCreated }) => {
   const { t } = useTranslation();
   const [isCustom, setIsCustom] = useState(false);
   const [customAddress, setCustomAddress] = useState('');
-  const expiresInHours = 24;
+  const { config } = useContext(MailboxContext);
+  const [expiresInMinutes, setExpiresInMinutes] = useState<number | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
@@ -28,6 +33,19 @@ const CreateMailboxForm: React.FC<CreateMailboxFormProps> = ({ onMailboxCreated
     };
   }, []);
   
+  const { minMinutes, maxMinutes, defaultMinutes } = config.lifetime;
+  const lifetimeOptions = Array.from(new Set([...LIFETIME_OPTIONS, defaultMinutes]))
+    .filter(minutes => minutes >= minMinutes && minutes <= maxMinutes)
+    .sort((a, b) => a - b);
+  const selectedLifetime = expiresInMinutes ?? defaultMinutes;
+  
+  // 格式化有效期选项
+  const formatLifetime = (minutes: number) => {
+    if (minutes % (24 * 60) === 0) return t('mailbox.durationDays', { count: minutes / (24 * 60) });
+    if (minutes % 60 === 0) return t('mailbox.durationHours', { count: minutes / 60 });
+    return t('mailbox.durationMinutes', { count: minutes });
+  };
+  
   const handleCreateRandom = async () => {
     try {
       // 清除之前的错误和成功信息
@@ -41,7 +59,7 @@ const CreateMailboxForm: React.FC<CreateMailboxFormProps> = ({ onMailboxCreated
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          expiresInHours,
+          expiresInMinutes: selectedLifetime,
         }),
       });
       
@@ -58,7 +76,7 @@ const CreateMailboxForm: React.FC<CreateMailboxFormProps> = ({ onMailboxCreated
           window.clearTimeout(successTimeoutRef.current);
         }
         successTimeoutRef.current = window.setTimeout(() => {
-          onMailboxCreated(data.mailbox.address);
+          onMailboxCreated({ ...data.mailbox, token: data.token });
         }, 2000);
       } else {
         throw new Error(data.error || 'Unknown error');
@@ -107,7 +125,7 @@ const CreateMailboxForm: React.FC<CreateMailboxFormProps> = ({ onMailboxCreated
         },
         body: JSON.stringify({
           address: customAddress.trim(),
-          expiresInHours,
+          expiresInMinutes: selectedLifetime,
         }),
       });
       
@@ -136,7 +154,7 @@ const CreateMailboxForm: React.FC<CreateMailboxFormProps> = ({ onMailboxCreated
           window.clearTimeout(successTimeoutRef.current);
         }
         successTimeoutRef.current = window.setTimeout(() => {
-          onMailboxCreated(data.mailbox.address);
+          onMailboxCreated({ ...data.mailbox, token: data.token });
         }, 2000);
       } else {
         throw new Error(data.error || 'Unknown error');
@@ -186,6 +204,23 @@ const CreateMailboxForm: React.FC<CreateMailboxFormProps> = ({ onMailboxCreated
         </button>
       </div>
       
+      <div className="flex items-center justify-between mb-4">
+        <label htmlFor="mailbox-lifetime" className="text-sm text-muted-foreground">
+          {t('mailbox.lifetime')}
+        </label>
+        <select
+          id="mailbox-lifetime"
+          value={selectedLifetime}
+          onChange={(e) => setExpiresInMinutes(Number(e.target.value))}
+          className="px-3 py-1 text-sm border rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+          disabled={isLoading}
+        >
+          {lifetimeOptions.map(minutes => (
+            <option key={minutes} value={minutes}>{formatLifetime(minutes)}</option>
+          ))}
+        </select>
+      </div>
+      
       {isCustom ? (
         <form onSubmit={handleCreateCustom}>
           <div className="flex flex-col space-y-4">
@@ -2,6 +2,9 @@ import React, { useState, useEffect, useContext, useRef } from 'react';
 import { useTranslation } from 'react-i18next';
 import { API_BASE_URL } from '../config';
 import { MailboxContext } from '../contexts/MailboxContext';
+import { getAuthHeaders, withToken, isRemoteContentSender, addRemoteContentSender, addSenderRule } from '../utils/api';
+import CopyButton from './CopyButton';
+import SafeHtmlFrame from './SafeHtmlFrame';
 
 interface EmailDetailProps {
   emailId: string;
@@ -22,13 +25,18 @@ interface Attachment {
 
 const EmailDetail: React.FC<EmailDetailProps> = ({ emailId, onClose, showCloseButton = true }) => {
   const { t } = useTranslation();
-  const { emailCache, addToEmailCache, handleMailboxNotFound } = useContext(MailboxContext);
+  const { mailbox, config, emailCache, addToEmailCache, handleMailboxNotFound } = useContext(MailboxContext);
   const [email, setEmail] = useState<Email | null>(null);
   const [attachments, setAttachments] = useState<Attachment[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isLoadingAttachments, setIsLoadingAttachments] = useState(false);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [rawSource, setRawSource] = useState<string | null>(null);
+  const [showSource, setShowSource] = useState(false);
+  const [isLoadingSource, setIsLoadingSource] = useState(false);
+  const [isLoadingRemote, setIsLoadingRemote] = useState(false);
+  const [showPrivacyReport, setShowPrivacyReport] = useState(false);
   const errorTimeoutRef = useRef<number | null>(null);
   const successTimeoutRef = useRef<number | null>(null);
   
@@ -44,6 +52,24 @@ const EmailDetail: React.FC<EmailDetailProps> = ({ emailId, onClose, showCloseBu
     };
   }, []);
   
+  // 切换邮件时重置原始邮件源码
+  useEffect(() => {
+    setRawSource(null);
+    setShowSource(false);
+    setShowPrivacyReport(false);
+  }, [emailId]);
+  
+  // 通过图片代理重新获取允许加载远程内容的邮件
+  const fetchEmailWithRemoteContent = async (id: string): Promise<Email | null> => {
+    const response = await fetch(`${API_BASE_URL}/api/emails/${id}?render=safe&remote=allow`, {
+      headers: getAuthHeaders(mailbox?.token),
+    });
+    if (!response.ok) return null;
+    
+    const data = await response.json();
+    return data.success ? data.email as Email : null;
+  };
+  
   useEffect(() => {
     const fetchEmail = async () => {
       try {
@@ -60,11 +86,14 @@ const EmailDetail: React.FC<EmailDetailProps> = ({ emailId, onClose, showCloseBu
         }
         
         setIsLoading(true);
-        const response = await fetch(`${API_BASE_URL}/api/emails/${emailId}`);
+        // 使用服务端清理后的 HTML
+        const response = await fetch(`${API_BASE_URL}/api/emails/${emailId}?render=safe`, {
+          headers: getAuthHeaders(mailbox?.token),
+        });
         
         if (!response.ok) {
-          // 如果邮箱不存在（404），则清除本地缓存并创建新邮箱
-          if (response.status === 404) {
+          // 如果邮箱不存在（404）或令牌失效（401/403），则清除本地缓存并创建新邮箱
+          if (response.status === 404 || response.status === 401 || response.status === 403) {
             await handleMailboxNotFound();
             onClose?.(); // 关闭邮件详情
             return;
@@ -74,14 +103,21 @@ const EmailDetail: React.FC<EmailDetailProps> = ({ emailId, onClose, showCloseBu
         
         const data = await response.json();
         if (data.success) {
-          setEmail(data.email);
+          let emailData: Email = data.email;
+          
+          // 发件人已设置为始终加载远程内容时，改为获取经图片代理的版本
+          if (config.imageProxy && emailData.remoteContent?.blocked && isRemoteContentSender(emailData.fromAddress)) {
+            emailData = (await fetchEmailWithRemoteContent(emailId)) || emailData;
+          }
+          
+          setEmail(emailData);
           
           // 如果邮件有附件，获取附件列表
-          if (data.email.hasAttachments) {
-            await fetchAttachments(emailId, data.email);
+          if (emailData.hasAttachments) {
+            await fetchAttachments(emailId, emailData);
           } else {
             // 没有附件，将邮件添加到缓存
-            addToEmailCache(emailId, data.email, []);
+            addToEmailCache(emailId, emailData, []);
           }
         } else {
           throw new Error(data.error || 'Unknown error');
@@ -102,16 +138,18 @@ const EmailDetail: React.FC<EmailDetailProps> = ({ emailId, onClose, showCloseBu
     };
     
     fetchEmail();
-  }, [emailId, t, emailCache, addToEmailCache, handleMailboxNotFound, onClose]);
+  }, [emailId, t, emailCache, addToEmailCache, handleMailboxNotFound, onClose, mailbox?.token, config.imageProxy]);
   
   const fetchAttachments = async (emailId: string, emailData?: Email) => {
     try {
       setIsLoadingAttachments(true);
-      const response = await fetch(`${API_BASE_URL}/api/emails/${emailId}/attachments`);
+      const response = await fetch(`${API_BASE_URL}/api/emails/${emailId}/attachments`, {
+        headers: getAuthHeaders(mailbox?.token),
+      });
       
       if (!response.ok) {
-        // 如果邮箱不存在（404），则清除本地缓存并创建新邮箱
-        if (response.status === 404) {
+        // 如果邮箱不存在（404）或令牌失效（401/403），则清除本地缓存并创建新邮箱
+        if (response.status === 404 || response.status === 401 || response.status === 403) {
           await handleMailboxNotFound();
           onClose?.(); // 关闭邮件详情
           return;
@@ -137,6 +175,110 @@ const EmailDetail: React.FC<EmailDetailProps> = ({ emailId, onClose, showCloseBu
     }
   };
   
+  // 获取原始邮件下载链接（附带访问令牌）
+  const getRawUrl = (): string => {
+    return withToken(`${API_BASE_URL}/api/emails/${emailId}/raw`, mailbox?.token);
+  };
+  
+  // 显示或隐藏原始邮件源码，首次显示时加载
+  const toggleSource = async () => {
+    if (showSource) {
+      setShowSource(false);
+      return;
+    }
+    
+    setShowSource(true);
+    if (rawSource !== null) return;
+    
+    try {
+      setIsLoadingSource(true);
+      const response = await fetch(`${API_BASE_URL}/api/emails/${emailId}/raw`, {
+        headers: getAuthHeaders(mailbox?.token),
+      });
+      
+      if (!response.ok) {
+        throw new Error('Failed to fetch email source');
+      }
+      
+      setRawSource(await response.text());
+    } catch (error) {
+      setShowSource(false);
+      setErrorMessage(t('email.sourceFailed'));
+      
+      // 3秒后清除错误信息
+      if (errorTimeoutRef.current) {
+        window.clearTimeout(errorTimeoutRef.current);
+      }
+      errorTimeoutRef.current = window.setTimeout(() => {
+        setErrorMessage(null);
+      }, 3000);
+    } finally {
+      setIsLoadingSource(false);
+    }
+  };
+  
+  // 加载被阻止的远程内容，always 为 true 时记住该发件人
+  const handleLoadRemoteContent = async (always: boolean) => {
+    if (!email) return;
+    
+    if (always) {
+      addRemoteContentSender(email.fromAddress);
+    }
+    
+    try {
+      setIsLoadingRemote(true);
+      const updated = await fetchEmailWithRemoteContent(email.id);
+      if (!updated) {
+        throw new Error('Failed to load remote content');
+      }
+      setEmail(updated);
+      addToEmailCache(email.id, updated, attachments);
+    } catch (error) {
+      setErrorMessage(t('email.remoteContentFailed'));
+      
+      // 3秒后清除错误信息
+      if (errorTimeoutRef.current) {
+        window.clearTimeout(errorTimeoutRef.current);
+      }
+      errorTimeoutRef.current = window.setTimeout(() => {
+        setErrorMessage(null);
+      }, 3000);
+    } finally {
+      setIsLoadingRemote(false);
+    }
+  };
+  
+  // 屏蔽当前邮件的发件人，之后该发件人的邮件不会再投递到此邮箱
+  const handleBlockSender = async () => {
+    if (!email || !mailbox) return;
+    
+    setErrorMessage(null);
+    setSuccessMessage(null);
+    
+    const result = await addSenderRule(mailbox.address, mailbox.token, email.fromAddress, 'block');
+    if (result.success) {
+      setSuccessMessage(t('email.blockSenderSuccess', { sender: email.fromAddress }));
+      
+      // 3秒后清除成功信息
+      if (successTimeoutRef.current) {
+        window.clearTimeout(successTimeoutRef.current);
+      }
+      successTimeoutRef.current = window.setTimeout(() => {
+        setSuccessMessage(null);
+      }, 3000);
+    } else {
+      setErrorMessage(t('email.blockSenderFailed'));
+      
+      // 3秒后清除错误信息
+      if (errorTimeoutRef.current) {
+        window.clearTimeout(errorTimeoutRef.current);
+      }
+      errorTimeoutRef.current = window.setTimeout(() => {
+        setErrorMessage(null);
+      }, 3000);
+    }
+  };
+  
   const handleDelete = async () => {
     try {
       // 清除之前的错误和成功信息
@@ -145,6 +287,7 @@ const EmailDetail: React.FC<EmailDetailProps> = ({ emailId, onClose, showCloseBu
       
       const response = await fetch(`${API_BASE_URL}/api/emails/${emailId}`, {
         method: 'DELETE',
+        headers: getAuthHeaders(mailbox?.token),
       });
       
       if (!response.ok) {
@@ -190,6 +333,13 @@ const EmailDetail: React.FC<EmailDetailProps> = ({ emailId, onClose, showCloseBu
     }).format(date);
   };
   
+  // 格式化地址列表
+  const formatAddressList = (addresses: EmailAddress[]): string => {
+    return addresses
+      .map(item => item.name ? `${item.name} <${item.address}>` : item.address)
+      .join(', ');
+  };
+  
   // 格式化文件大小
   const formatFileSize = (bytes: number): string => {
     if (bytes === 0) return '0 Bytes';
@@ -224,114 +374,16 @@ const EmailDetail: React.FC<EmailDetailProps> = ({ emailId, onClose, showCloseBu
     }
   };
   
-  // 获取附件下载链接
-  const getAttachmentUrl = (attachmentId: string, download: boolean = false): string => {
-    return `${API_BASE_URL}/api/attachments/${attachmentId}${download ? '?download=true' : ''}`;
+  // 获取附件下载链接（附带访问令牌），inline 为 true 时用于页面内预览
+  const getAttachmentUrl = (attachmentId: string, download: boolean = false, inline: boolean = false): string => {
+    const query = download ? `?download=true${inline ? '&inline=true' : ''}` : '';
+    return withToken(`${API_BASE_URL}/api/attachments/${attachmentId}${query}`, mailbox?.token);
   };
 
-  // 处理HTML内容中的内联图片引用
-  const processHtmlContent = (htmlContent: string, attachments: Attachment[]): string => {
-    if (!htmlContent || !attachments.length) {
-      return htmlContent;
-    }
-
-    let processedHtml = htmlContent;
-
-    // 为每个图片类型的附件创建映射
-    const imageAttachments = attachments.filter(att => att.mimeType.startsWith('image/'));
-
-    if (imageAttachments.length === 0) {
-      return htmlContent;
-    }
-
-    // 首先处理所有的img标签中的cid引用
-    processedHtml = processedHtml.replace(/<img[^>]*>/gi, (imgTag) => {
-      // 提取src属性中的cid值
-      const srcMatch = imgTag.match(/src=["']([^"']+)["']/i);
-      if (!srcMatch) {
-        return imgTag;
-      }
-
-      const srcValue = srcMatch[1];
-
-      // 检查是否是cid引用
-      if (srcValue.toLowerCase().startsWith('cid:')) {
-        const cidValue = srcValue.substring(4); // 移除 "cid:" 前缀
-
-        // 尝试匹配附件
-        const matchedAttachment = imageAttachments.find(att => {
-          const filename = att.filename;
-          return cidValue === filename ||
-                 cidValue === att.id ||
-                 cidValue === filename.toLowerCase() ||
-                 cidValue.toLowerCase() === filename.toLowerCase() ||
-                 // 处理文件名不带扩展名的情况
-                 cidValue === filename.split('.')[0] ||
-                 cidValue.toLowerCase() === filename.split('.')[0].toLowerCase();
-        });
-
-        if (matchedAttachment) {
-          const attachmentUrl = getAttachmentUrl(matchedAttachment.id, false); // 不强制下载，用于显示
-          return imgTag.replace(/src=["'][^"']+["']/, `src="${attachmentUrl}"`);
-        }
-      } else {
-        // 处理非cid引用，可能是直接的文件名引用
-        const matchedAttachment = imageAttachments.find(att => {
-          const filename = att.filename;
-          return srcValue === filename ||
-                 srcValue === filename.toLowerCase() ||
-                 srcValue.toLowerCase() === filename.toLowerCase() ||
-                 srcValue.includes(filename) ||
-                 filename.includes(srcValue);
-        });
-
-        if (matchedAttachment) {
-          const attachmentUrl = getAttachmentUrl(matchedAttachment.id, false);
-          return imgTag.replace(/src=["'][^"']+["']/, `src="${attachmentUrl}"`);
-        }
-      }
-
-      return imgTag;
-    });
-
-    // 处理其他可能的引用（包括纯文本文件名引用）
-    imageAttachments.forEach(attachment => {
-      const attachmentUrl = getAttachmentUrl(attachment.id, false); // 不强制下载
-      const filename = attachment.filename;
-
-      // 处理各种可能的引用格式
-      const patterns = [
-        // cid引用（不在img标签中）
-        new RegExp(`(?<!<img[^>]*)cid:${escapeRegExp(filename)}(?![^<]*>)`, 'gi'),
-        new RegExp(`(?<!<img[^>]*)cid:"${escapeRegExp(filename)}"(?![^<]*>)`, 'gi'),
-        new RegExp(`(?<!<img[^>]*)cid:'${escapeRegExp(filename)}'(?![^<]*>)`, 'gi'),
-        // 纯文本文件名引用（将文本替换为图片标签）
-        new RegExp(`(?<!<[^>]*>)\\b${escapeRegExp(filename)}\\b(?![^<]*</)`, 'gi')
-      ];
-
-      patterns.forEach((pattern, index) => {
-        if (index === patterns.length - 1) {
-          // 最后一个模式：将纯文本文件名替换为图片标签
-          processedHtml = processedHtml.replace(pattern, `<img src="${attachmentUrl}" alt="${filename}" style="max-width: 100%; height: auto;" />`);
-        } else {
-          // 其他模式：直接替换为URL
-          processedHtml = processedHtml.replace(pattern, attachmentUrl);
-        }
-      });
-    });
-
-    return processedHtml;
-  };
-
-  // 转义正则表达式特殊字符
-  const escapeRegExp = (string: string): string => {
-    return string.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-  };
-  
   // 渲染附件预览
   const renderAttachmentPreview = (attachment: Attachment) => {
     const fileType = getFileType(attachment.mimeType);
-    const attachmentUrl = getAttachmentUrl(attachment.id, true);
+    const attachmentUrl = getAttachmentUrl(attachment.id, true, true);
     
     switch (fileType) {
       case 'image':
@@ -385,23 +437,6 @@ const EmailDetail: React.FC<EmailDetailProps> = ({ emailId, onClose, showCloseBu
   
   return (
     <>
-      {/* 添加邮件内容的样式 */}
-      <style>{`
-        .email-content img {
-          max-width: 100%;
-          height: auto;
-          border-radius: 4px;
-          margin: 8px 0;
-        }
-        .email-content table {
-          max-width: 100%;
-          border-collapse: collapse;
-        }
-        .email-content td, .email-content th {
-          padding: 4px 8px;
-        }
-      `}</style>
-
       <div className="navi-card p-6 h-full flex flex-col">
       {/* 错误和成功提示 */}
       {(errorMessage || successMessage) && (
@@ -429,8 +464,22 @@ const EmailDetail: React.FC<EmailDetailProps> = ({ emailId, onClose, showCloseBu
                 </div>
                 <div className="flex items-center">
                   <span className="font-medium text-navi-primary w-16">{t('email.to')}:</span>
-                  <span className="bg-gray-50 px-2 py-1 rounded text-navi-secondary">{email.toAddress}</span>
+                  <span className="bg-gray-50 px-2 py-1 rounded text-navi-secondary">
+                    {email.to && email.to.length > 0 ? formatAddressList(email.to) : email.toAddress}
+                  </span>
                 </div>
+                {email.cc && email.cc.length > 0 && (
+                  <div className="flex items-center">
+                    <span className="font-medium text-navi-primary w-16">{t('email.cc')}:</span>
+                    <span className="bg-gray-50 px-2 py-1 rounded text-navi-secondary">{formatAddressList(email.cc)}</span>
+                  </div>
+                )}
+                {email.replyTo && email.replyTo.length > 0 && (
+                  <div className="flex items-center">
+                    <span className="font-medium text-navi-primary w-16">{t('email.replyTo')}:</span>
+                    <span className="bg-gray-50 px-2 py-1 rounded text-navi-secondary">{formatAddressList(email.replyTo)}</span>
+                  </div>
+                )}
                 <div className="flex items-center">
                   <span className="font-medium text-navi-primary w-16">{t('email.date')}:</span>
                   <span className="text-navi-muted">{formatDate(email.receivedAt)}</span>
@@ -438,6 +487,29 @@ const EmailDetail: React.FC<EmailDetailProps> = ({ emailId, onClose, showCloseBu
               </div>
             </div>
             <div className="flex space-x-2 ml-4">
+              {!!email.rawSize && (
+                <>
+                  <a
+                    href={getRawUrl()}
+                    download={`${email.id}.eml`}
+                    className="p-2 rounded-md hover:bg-blue-50 text-navi-secondary hover:text-navi-primary transition-colors"
+                    title={t('email.downloadEml')}
+                  >
+                    <i className="fas fa-file-download"></i>
+                  </a>
+                  <button
+                    onClick={toggleSource}
+                    className={`p-2 rounded-md transition-colors ${
+                      showSource
+                        ? 'text-navi-primary bg-blue-50'
+                        : 'text-navi-secondary hover:bg-blue-50 hover:text-navi-primary'
+                    }`}
+                    title={t('email.viewSource')}
+                  >
+                    <i className="fas fa-code"></i>
+                  </button>
+                </>
+              )}
               {showCloseButton && onClose && (
                 <button
                   onClick={onClose}
@@ -447,6 +519,15 @@ const EmailDetail: React.FC<EmailDetailProps> = ({ emailId, onClose, showCloseBu
                   <i className="fas fa-times"></i>
                 </button>
               )}
+              {email.fromAddress && (
+                <button
+                  onClick={handleBlockSender}
+                  className="p-2 rounded-md hover:bg-red-50 text-navi-secondary hover:text-red-600 transition-colors"
+                  title={t('email.blockSender')}
+                >
+                  <i className="fas fa-ban"></i>
+                </button>
+              )}
               <button
                 onClick={handleDelete}
                 className="p-2 rounded-md hover:bg-red-50 text-red-500 hover:text-red-600 transition-colors"
@@ -460,21 +541,161 @@ const EmailDetail: React.FC<EmailDetailProps> = ({ emailId, onClose, showCloseBu
           {/* 分隔线 */}
           <hr className="navi-divider" />
 
+          {/* 验证码和验证链接 */}
+          {(email.verificationCode || (email.verificationLinks && email.verificationLinks.length > 0)) && (
+            <div className="p-4 rounded-md bg-green-50 border border-green-200 space-y-2">
+              {email.verificationCode && (
+                <div className="flex items-center text-sm">
+                  <span className="font-medium text-navi-primary mr-2">{t('email.verificationCode')}:</span>
+                  <span className="font-mono text-lg font-semibold text-green-700 tracking-wider">{email.verificationCode}</span>
+                  <CopyButton value={email.verificationCode} className="ml-3" title={t('email.copyCode')} />
+                </div>
+              )}
+              {email.verificationLinks?.map(link => (
+                <div key={link} className="flex items-center text-sm min-w-0">
+                  <span className="font-medium text-navi-primary mr-2 whitespace-nowrap">{t('email.verificationLink')}:</span>
+                  <a
+                    href={link}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="truncate text-blue-600 hover:underline"
+                    title={link}
+                  >
+                    {link}
+                  </a>
+                  <CopyButton value={link} className="ml-3 flex-shrink-0" title={t('email.copyLink')} />
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* 原始邮件源码 */}
+          {showSource && (
+            <div>
+              <h3 className="font-medium mb-3 text-navi-primary flex items-center">
+                <i className="fas fa-code mr-2"></i>
+                {t('email.source')}
+                {isLoadingSource && (
+                  <span className="ml-2 inline-block animate-spin h-4 w-4 border-b-2 border-primary rounded-full"></span>
+                )}
+              </h3>
+              {rawSource !== null && (
+                <pre className="navi-card p-4 text-xs font-mono text-navi-secondary whitespace-pre-wrap break-all max-h-[400px] overflow-y-auto">
+                  {rawSource}
+                </pre>
+              )}
+            </div>
+          )}
+
           {/* 邮件内容 */}
           <div>
             <h3 className="font-medium mb-3 text-navi-primary flex items-center">
               <i className="fas fa-envelope-open-text mr-2"></i>
               {t('email.content')}
+              {email.privacyReport && email.privacyReport.trackers.length > 0 && (
+                <button
+                  onClick={() => setShowPrivacyReport(!showPrivacyReport)}
+                  className="ml-auto px-2 py-0.5 rounded-full bg-purple-100 text-purple-800 text-xs font-normal hover:bg-purple-200"
+                >
+                  <i className="fas fa-user-secret mr-1"></i>
+                  {t('email.trackersBlocked', { count: email.privacyReport.trackers.length })}
+                </button>
+              )}
             </h3>
+            {/* 隐私报告：跟踪器和去除跟踪后的链接 */}
+            {showPrivacyReport && email.privacyReport && (
+              <div className="mb-3 p-4 rounded-md bg-purple-50 border border-purple-200 space-y-3 text-sm">
+                {email.privacyReport.trackers.length > 0 && (
+                  <div>
+                    <div className="font-medium text-navi-primary mb-1">{t('email.trackers')}</div>
+                    <ul className="space-y-1">
+                      {email.privacyReport.trackers.map(tracker => (
+                        <li key={`${tracker.type}:${tracker.url}`} className="flex items-center min-w-0 text-xs">
+                          <span className="px-1.5 py-0.5 mr-2 rounded bg-purple-100 text-purple-800 whitespace-nowrap">
+                            {t(`email.trackerType.${tracker.type}`)}
+                          </span>
+                          <span className="font-mono text-navi-secondary whitespace-nowrap mr-2">{tracker.host}</span>
+                          {tracker.params && (
+                            <span className="truncate text-navi-muted" title={tracker.url}>{tracker.params.join(', ')}</span>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                {email.privacyReport.links.length > 0 && (
+                  <div>
+                    <div className="font-medium text-navi-primary mb-1 flex items-center">
+                      {t('email.cleanLinks')}
+                      <CopyButton
+                        value={email.privacyReport.links.map(link => link.clean).join('\n')}
+                        className="ml-2"
+                        title={t('email.copyAllCleanLinks')}
+                      />
+                    </div>
+                    <ul className="space-y-1">
+                      {email.privacyReport.links.map(link => (
+                        <li key={link.original} className="flex items-center min-w-0 text-xs">
+                          <a
+                            href={link.clean}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="truncate text-blue-600 hover:underline"
+                            title={link.original}
+                          >
+                            {link.clean}
+                          </a>
+                          <CopyButton value={link.clean} className="ml-2 flex-shrink-0" title={t('email.copyCleanLink')} />
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            )}
+            {mailbox?.retention?.policy === 'burn' && (
+              <div className="mb-3 p-3 rounded-md bg-red-50 border border-red-200 text-xs text-red-800">
+                <i className="fas fa-fire mr-1"></i>
+                {t('email.burnAfterReading')}
+              </div>
+            )}
+            {email.stripped && email.stripped.length > 0 && (
+              <div className="mb-3 p-3 rounded-md bg-yellow-50 border border-yellow-200 text-xs text-yellow-800">
+                <i className="fas fa-shield-alt mr-1"></i>
+                {t('email.strippedContent')}:{' '}
+                {email.stripped.map(item => `${item.name}${item.count > 1 ? ` ×${item.count}` : ''}`).join(', ')}
+              </div>
+            )}
+            {email.remoteContent?.blocked && (
+              <div className="mb-3 p-3 rounded-md bg-blue-50 border border-blue-200 text-xs text-blue-800 flex flex-wrap items-center gap-2">
+                <span>
+                  <i className="fas fa-image mr-1"></i>
+                  {t('email.remoteContentBlocked', { count: email.remoteContent.count })}
+                </span>
+                {config.imageProxy && (
+                  <span className="flex gap-2 ml-auto">
+                    <button
+                      onClick={() => handleLoadRemoteContent(false)}
+                      disabled={isLoadingRemote}
+                      className="px-2 py-1 rounded bg-white border border-blue-200 hover:bg-blue-100 disabled:opacity-50"
+                    >
+                      {t('email.loadRemoteContent')}
+                    </button>
+                    <button
+                      onClick={() => handleLoadRemoteContent(true)}
+                      disabled={isLoadingRemote}
+                      className="px-2 py-1 rounded bg-white border border-blue-200 hover:bg-blue-100 disabled:opacity-50"
+                    >
+                      {t('email.alwaysLoadRemoteContent')}
+                    </button>
+                  </span>
+                )}
+              </div>
+            )}
             {email.htmlContent ? (
-              <div
-                className="prose max-w-none navi-card p-4 email-content"
-                dangerouslySetInnerHTML={{ __html: processHtmlContent(email.htmlContent, attachments) }}
-                style={{
-                  // 确保内联图片能正确显示
-                  '--tw-prose-body': 'inherit',
-                  '--tw-prose-headings': 'inherit'
-                } as React.CSSProperties}
+              <SafeHtmlFrame
+                html={email.htmlContent}
+                title={email.subject || t('email.content')}
               />
             ) : email.textContent ? (
               <pre className="whitespace-pre-wrap navi-card p-4 font-sans text-navi-secondary">
@@ -497,6 +718,15 @@ const EmailDetail: React.FC<EmailDetailProps> = ({ emailId, onClose, showCloseBu
                 {isLoadingAttachments && (
                   <span className="ml-2 inline-block animate-spin h-4 w-4 border-b-2 border-primary rounded-full"></span>
                 )}
+                {attachments.length > 1 && (
+                  <a
+                    href={withToken(`${API_BASE_URL}/api/emails/${email.id}/attachments.zip`, mailbox?.token)}
+                    className="ml-auto text-sm font-normal text-navi-secondary hover:text-navi-primary"
+                  >
+                    <i className="fas fa-file-archive mr-1"></i>
+                    {t('email.downloadAll')}
+                  </a>
+                )}
               </h3>
 
               {attachments.length > 0 ? (
@@ -1,6 +1,24 @@
-import React, { useContext } from 'react';
+import React, { useContext, useState, useEffect, useRef } from 'react';
 import { useTranslation } from 'react-i18next';
 import { MailboxContext } from '../contexts/MailboxContext';
+import { searchEmails } from '../utils/api';
+import CopyButton from './CopyButton';
+
+// 搜索输入防抖时间（毫秒）
+const SEARCH_DEBOUNCE_MS = 300;
+
+// 可选的邮件保留策略
+const RETENTION_OPTIONS: MailboxRetention[] = [
+  { policy: 'expiry', value: null },
+  { policy: 'burn', value: null },
+  { policy: 'after_read', value: 10 },
+  { policy: 'after_read', value: 60 },
+  { policy: 'days', value: 1 },
+  { policy: 'days', value: 3 },
+];
+
+// 保留策略在下拉框中的取值
+const retentionKey = (retention: MailboxRetention) => `${retention.policy}:${retention.value ?? ''}`;
 
 interface EmailListProps {
   emails: Email[];
@@ -16,7 +34,70 @@ const EmailList: React.FC<EmailListProps> = ({
   isLoading 
 }) => {
   const { t } = useTranslation();
-  const { autoRefresh, setAutoRefresh, refreshEmails, mailbox } = useContext(MailboxContext);
+  const { 
+    autoRefresh, 
+    setAutoRefresh, 
+    refreshEmails, 
+    mailbox, 
+    config, 
+    extendMailbox,
+    updateRetention,
+    loadMoreEmails,
+    hasMoreEmails,
+    isLoadingMoreEmails,
+    tagFilter,
+    setTagFilter
+  } = useContext(MailboxContext);
+  const [isExtending, setIsExtending] = useState(false);
+  const [isUpdatingRetention, setIsUpdatingRetention] = useState(false);
+  const loadMoreRef = useRef<HTMLDivElement | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<EmailSearchResult[] | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  
+  // 输入停止后执行搜索，忽略过期请求的结果
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (!query || !mailbox) {
+      setSearchResults(null);
+      setIsSearching(false);
+      return;
+    }
+    
+    let cancelled = false;
+    setIsSearching(true);
+    const timer = setTimeout(async () => {
+      const result = await searchEmails(mailbox.address, mailbox.token, query);
+      if (cancelled) return;
+      setSearchResults(result.results);
+      setIsSearching(false);
+    }, SEARCH_DEBOUNCE_MS);
+    
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [searchQuery, mailbox]);
+  
+  // 切换邮箱时清空搜索
+  useEffect(() => {
+    setSearchQuery('');
+  }, [mailbox?.address]);
+  
+  // 列表底部进入可视区域时加载下一页
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasMoreEmails) return;
+    
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting) {
+        loadMoreEmails();
+      }
+    }, { rootMargin: '100px' });
+    
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMoreEmails, loadMoreEmails, emails.length]);
   
   const formatDate = (timestamp: number) => {
     const date = new Date(timestamp * 1000);
@@ -67,6 +148,41 @@ const EmailList: React.FC<EmailListProps> = ({
     setAutoRefresh(!autoRefresh);
   };
   
+  const handleExtend = async () => {
+    setIsExtending(true);
+    await extendMailbox();
+    setIsExtending(false);
+  };
+  
+  // 旧版本保存的邮箱没有保留策略，按保留到邮箱过期处理
+  const retention: MailboxRetention = mailbox?.retention || RETENTION_OPTIONS[0];
+  const retentionOptions = RETENTION_OPTIONS.some(option => retentionKey(option) === retentionKey(retention))
+    ? RETENTION_OPTIONS
+    : [...RETENTION_OPTIONS, retention];
+  
+  // 格式化保留策略
+  const formatRetention = (option: MailboxRetention) => {
+    if (option.policy === 'after_read') return t('mailbox.retentionAfterRead', { count: option.value ?? 0 });
+    if (option.policy === 'days') return t('mailbox.retentionDays', { count: option.value ?? 0 });
+    if (option.policy === 'burn') return t('mailbox.retentionBurn');
+    return t('mailbox.retentionExpiry');
+  };
+  
+  const handleRetentionChange = async (key: string) => {
+    const option = retentionOptions.find(item => retentionKey(item) === key);
+    if (!option) return;
+    
+    setIsUpdatingRetention(true);
+    await updateRetention(option);
+    setIsUpdatingRetention(false);
+  };
+  
+  // 已达到最长有效期（预留1分钟误差）时不再允许延长
+  const isAtMaxLifetime = (expiresAt: number) => {
+    const now = Math.floor(Date.now() / 1000);
+    return expiresAt >= now + config.lifetime.maxMinutes * 60 - 60;
+  };
+  
   if (isLoading) {
     return (
       <div className="navi-card p-6">
@@ -118,14 +234,78 @@ const EmailList: React.FC<EmailListProps> = ({
           </div>
           <div className="flex justify-between items-center mt-1">
             <span className="font-medium">{t('mailbox.timeLeft')}:</span>
-            <span className="text-navi-primary font-medium">{calculateTimeLeft(mailbox.expiresAt)}</span>
+            <span className="flex items-center">
+              <span className="text-navi-primary font-medium">{calculateTimeLeft(mailbox.expiresAt)}</span>
+              <button
+                onClick={handleExtend}
+                className="ml-2 px-1.5 py-0.5 rounded text-navi-primary hover:bg-blue-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                disabled={isExtending || isAtMaxLifetime(mailbox.expiresAt)}
+                title={t('mailbox.extend')}
+              >
+                <i className={`fas ${isExtending ? 'fa-spinner fa-spin' : 'fa-hourglass-half'} mr-1`}></i>
+                {t('mailbox.extend')}
+              </button>
+            </span>
+          </div>
+          <div className="flex justify-between items-center mt-1">
+            <label htmlFor="mailbox-retention" className="font-medium">{t('mailbox.retention')}:</label>
+            <select
+              id="mailbox-retention"
+              value={retentionKey(retention)}
+              onChange={(e) => handleRetentionChange(e.target.value)}
+              className="px-1 py-0.5 rounded border bg-white text-navi-primary focus:outline-none focus:ring-1 focus:ring-primary disabled:opacity-50"
+              disabled={isUpdatingRetention}
+            >
+              {retentionOptions.map(option => (
+                <option key={retentionKey(option)} value={retentionKey(option)}>{formatRetention(option)}</option>
+              ))}
+            </select>
           </div>
         </div>
       )}
 
+      <div className="px-4 py-2 border-b">
+        <div className="relative">
+          <i className="fas fa-search absolute left-3 top-1/2 -translate-y-1/2 text-xs text-navi-muted"></i>
+          <input
+            type="text"
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            placeholder={t('email.searchPlaceholder')}
+            className="w-full pl-8 pr-8 py-1.5 text-sm border rounded-md focus:outline-none focus:ring-1 focus:ring-primary"
+          />
+          {searchQuery && (
+            <button
+              onClick={() => setSearchQuery('')}
+              className="absolute right-2 top-1/2 -translate-y-1/2 p-1 text-navi-muted hover:text-navi-primary"
+              title={t('email.clearSearch')}
+            >
+              <i className="fas fa-times text-xs"></i>
+            </button>
+          )}
+        </div>
+      </div>
+
+      {tagFilter && (
+        <div className="flex items-center px-4 py-2 border-b text-xs text-navi-secondary">
+          <span className="mr-2">{t('email.filteredByTag')}:</span>
+          <span className="inline-flex items-center px-2 py-0.5 rounded-full bg-blue-100 text-navi-primary font-medium">
+            <i className="fas fa-tag mr-1"></i>
+            {tagFilter}
+            <button
+              onClick={() => setTagFilter(null)}
+              className="ml-1 hover:text-red-500"
+              title={t('email.clearTagFilter')}
+            >
+              <i className="fas fa-times"></i>
+            </button>
+          </span>
+        </div>
+      )}
+
       <div className="flex justify-between items-center px-4 py-2 bg-gray-50/50 border-b">
         <span className="text-sm text-navi-secondary font-medium">
-          {emails.length} {emails.length === 1 ? t('email.message') : t('email.messages')}
+          {emails.length}{hasMoreEmails ? '+' : ''} {emails.length === 1 && !hasMoreEmails ? t('email.message') : t('email.messages')}
         </span>
         <span className={`text-xs font-medium ${autoRefresh ? 'text-green-600' : 'text-navi-muted'}`}>
           {autoRefresh ? t('email.autoRefreshOn') : t('email.autoRefreshOff')}
@@ -133,7 +313,48 @@ const EmailList: React.FC<EmailListProps> = ({
       </div>
       
       <div className="flex-1 overflow-hidden">
-        {emails.length === 0 ? (
+        {searchResults !== null || isSearching ? (
+          <div className="h-full overflow-y-auto p-2">
+            {isSearching ? (
+              <div className="flex justify-center py-6">
+                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+              </div>
+            ) : searchResults && searchResults.length === 0 ? (
+              <p className="p-6 text-center text-sm text-navi-secondary">{t('email.noSearchResults')}</p>
+            ) : (
+              <div className="space-y-1">
+                {searchResults?.map((result) => (
+                  <div
+                    key={result.id}
+                    className={`email-item p-3 cursor-pointer ${
+                      selectedEmailId === result.id ? 'selected' : ''
+                    } ${!result.isRead ? 'unread' : ''}`}
+                    onClick={() => onSelectEmail(result.id)}
+                  >
+                    <div className="flex justify-between items-start mb-1">
+                      <span className="truncate text-sm text-navi-secondary">
+                        {result.fromName || result.fromAddress}
+                      </span>
+                      <span className="text-xs text-navi-muted whitespace-nowrap ml-2">
+                        {formatDate(result.receivedAt)}
+                      </span>
+                    </div>
+                    <div className="text-sm truncate mb-1 email-subject">
+                      {result.subject || t('email.noSubject')}
+                    </div>
+                    <div className="text-xs text-navi-muted line-clamp-2">
+                      {result.snippet.map((segment, index) => (
+                        segment.highlight
+                          ? <mark key={index} className="bg-yellow-200 text-navi-primary rounded-sm">{segment.text}</mark>
+                          : <span key={index}>{segment.text}</span>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        ) : emails.length === 0 ? (
           <div className="p-6 text-center text-navi-secondary h-full flex flex-col justify-center">
             <div className="mb-4">
               <i className="fas fa-inbox text-4xl text-navi-muted"></i>
@@ -163,15 +384,50 @@ const EmailList: React.FC<EmailListProps> = ({
                   <div className={`text-sm truncate mb-1 ${!email.isRead ? 'font-semibold email-subject' : 'text-navi-secondary'}`}>
                     {email.subject || t('email.noSubject')}
                   </div>
-                  {email.hasAttachments && (
-                    <div className="flex items-center">
-                      <i className="fas fa-paperclip text-xs text-navi-primary"></i>
-                      <span className="text-xs text-navi-muted ml-1">{t('email.hasAttachments')}</span>
+                  {email.verificationCode && (
+                    <div className="flex items-center mb-1">
+                      <span className="inline-flex items-center px-2 py-0.5 rounded bg-green-50 border border-green-200 text-xs text-green-700 font-mono font-semibold">
+                        <i className="fas fa-key mr-1"></i>
+                        {email.verificationCode}
+                      </span>
+                      <CopyButton value={email.verificationCode} className="ml-2 text-xs" title={t('email.copyCode')} />
+                    </div>
+                  )}
+                  {(email.hasAttachments || email.tag) && (
+                    <div className="flex items-center space-x-2">
+                      {email.tag && (
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setTagFilter(email.tag ?? null);
+                          }}
+                          className="inline-flex items-center px-2 py-0.5 rounded-full bg-blue-100 text-xs text-navi-primary hover:bg-blue-200 transition-colors"
+                          title={t('email.filterByTag')}
+                        >
+                          <i className="fas fa-tag mr-1"></i>
+                          {email.tag}
+                        </button>
+                      )}
+                      {email.hasAttachments && (
+                        <span className="flex items-center">
+                          <i className="fas fa-paperclip text-xs text-navi-primary"></i>
+                          <span className="text-xs text-navi-muted ml-1">{t('email.hasAttachments')}</span>
+                        </span>
+                      )}
                     </div>
                   )}
                 </div>
               ))}
             </div>
+            
+            {/* 滚动到底部时自动加载更多 */}
+            {hasMoreEmails && (
+              <div ref={loadMoreRef} className="flex justify-center py-3">
+                {isLoadingMoreEmails && (
+                  <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-primary"></div>
+                )}
+              </div>
+            )}
           </div>
         )}
       </div>
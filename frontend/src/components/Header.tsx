@@ -4,18 +4,19 @@ import { useTranslation } from 'react-i18next';
 import LanguageSwitcher from './LanguageSwitcher';
 import HeaderMailbox from './HeaderMailbox';
 import Container from './Container';
-import { EMAIL_DOMAIN } from '../config';
 
 interface HeaderProps {
   mailbox: Mailbox | null;
   onMailboxChange?: (mailbox: Mailbox) => void;
   isLoading?: boolean;
+  domains?: string[];
 }
 
 const Header: React.FC<HeaderProps> = ({ 
   mailbox = null, 
   onMailboxChange = () => {}, 
-  isLoading = false 
+  isLoading = false,
+  domains = []
 }) => {
   const { t } = useTranslation();
   
@@ -32,7 +33,7 @@ const Header: React.FC<HeaderProps> = ({
               <HeaderMailbox
                 mailbox={mailbox}
                 onMailboxChange={onMailboxChange}
-                domain={EMAIL_DOMAIN}
+                domains={domains}
                 isLoading={isLoading}
               />
               <div className="ml-3 pl-3 border-l border-white/30 flex items-center">
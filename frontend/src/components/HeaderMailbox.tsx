@@ -2,22 +2,28 @@ import React, { useState, useRef, useEffect } from 'react';
 import { useTranslation } from 'react-i18next';
 import { createRandomMailbox, createCustomMailbox } from '../utils/api';
 
+// 更换随机邮箱时可选的地址生成方式
+const ADDRESS_STYLES: AddressStyle[] = ['random', 'pronounceable', 'words', 'prefix'];
+
 interface HeaderMailboxProps {
   mailbox: Mailbox | null;
   onMailboxChange: (mailbox: Mailbox) => void;
-  domain: string;
+  domains: string[];
   isLoading: boolean;
 }
 
 const HeaderMailbox: React.FC<HeaderMailboxProps> = ({ 
   mailbox, 
   onMailboxChange,
-  domain,
+  domains,
   isLoading
 }) => {
   const { t } = useTranslation();
   const [isCustomMode, setIsCustomMode] = useState(false);
   const [customAddress, setCustomAddress] = useState('');
+  const [selectedDomain, setSelectedDomain] = useState('');
+  const [addressStyle, setAddressStyle] = useState<AddressStyle>('random');
+  const [addressPrefix, setAddressPrefix] = useState('');
   const [isActionLoading, setIsActionLoading] = useState(false);
   const [showCopyTooltip, setShowCopyTooltip] = useState(false);
   const [copyError, setCopyError] = useState<string | null>(null);
@@ -50,12 +56,17 @@ const HeaderMailbox: React.FC<HeaderMailboxProps> = ({
   
   if (!mailbox || isLoading) return null;
   
+  // 完整邮箱地址（兼容旧版本只保存用户名的邮箱）
+  const fullAddress = mailbox.address.includes('@') ? mailbox.address : `${mailbox.address}@${domains[0] || ''}`;
+  
+  // 自定义邮箱使用的域名，默认与当前邮箱相同
+  const customDomain = selectedDomain || mailbox.domain || domains[0] || '';
+  
   // 复制邮箱地址到剪贴板
   const copyToClipboard = () => {
     // 清除之前的错误信息
     setCopyError(null);
     
-    const fullAddress = mailbox.address.includes('@') ? mailbox.address : `${mailbox.address}@${domain}`;
     navigator.clipboard.writeText(fullAddress)
       .then(() => {
         // 显示复制成功提示
@@ -88,8 +99,17 @@ const HeaderMailbox: React.FC<HeaderMailboxProps> = ({
     // 清除之前的错误信息
     setRefreshError(null);
     
+    if (addressStyle === 'prefix' && !addressPrefix.trim()) {
+      setRefreshError(t('mailbox.invalidPrefix'));
+      return;
+    }
+    
     setIsActionLoading(true);
-    const result = await createRandomMailbox();
+    const result = await createRandomMailbox({
+      domain: mailbox.domain,
+      style: addressStyle,
+      prefix: addressStyle === 'prefix' ? addressPrefix.trim() : undefined,
+    });
     setIsActionLoading(false);
     
     if (result.success && result.mailbox) {
@@ -106,8 +126,10 @@ const HeaderMailbox: React.FC<HeaderMailboxProps> = ({
         setShowRefreshSuccess(false);
       }, 3000);
     } else {
-      // 显示刷新失败错误
-      setRefreshError(t('mailbox.refreshFailed'));
+      // 显示刷新失败错误，被频率限制时提示需要等待的时间
+      setRefreshError('retryAfter' in result && result.retryAfter
+        ? t('mailbox.rateLimited', { minutes: Math.ceil(result.retryAfter / 60) })
+        : t('mailbox.refreshFailed'));
       
       // 3秒后隐藏错误
       if (errorMessageTimeoutRef.current) {
@@ -133,7 +155,7 @@ const HeaderMailbox: React.FC<HeaderMailboxProps> = ({
     }
     
     setIsActionLoading(true);
-    const result = await createCustomMailbox(customAddress);
+    const result = await createCustomMailbox(customAddress, { domain: customDomain });
     setIsActionLoading(false);
     
     if (result.success && result.mailbox) {
@@ -157,7 +179,9 @@ const HeaderMailbox: React.FC<HeaderMailboxProps> = ({
         result.error === 'Address already exists' || 
         String(result.error).includes('已存在');
       
-      if (isAddressExistsError) {
+      if ('retryAfter' in result && result.retryAfter) {
+        setCustomAddressError(t('mailbox.rateLimited', { minutes: Math.ceil(result.retryAfter / 60) }));
+      } else if (isAddressExistsError) {
         setCustomAddressError(t('mailbox.addressExists'));
       } else {
         setCustomAddressError(t('mailbox.createFailed'));
@@ -173,9 +197,16 @@ const HeaderMailbox: React.FC<HeaderMailboxProps> = ({
     setCustomAddressSuccess(null);
   };
   
+  // 地址生成方式的名称
+  const formatAddressStyle = (style: AddressStyle) => {
+    if (style === 'pronounceable') return t('mailbox.addressStylePronounceable');
+    if (style === 'words') return t('mailbox.addressStyleWords');
+    if (style === 'prefix') return t('mailbox.addressStylePrefix');
+    return t('mailbox.addressStyleRandom');
+  };
+  
   // 移动设备上的邮箱地址显示
   const renderMobileAddress = () => {
-    const fullAddress = mailbox.address.includes('@') ? mailbox.address : `${mailbox.address}@${domain}`;
     const [username, domainPart] = fullAddress.split('@');
 
     // 如果用户名太长，截断显示
@@ -215,9 +246,23 @@ const HeaderMailbox: React.FC<HeaderMailboxProps> = ({
                 disabled={isActionLoading}
                 autoFocus
               />
-              <span className="px-2 py-1 text-sm border-y border-r rounded-r-md bg-muted">
-                @{domain}
-              </span>
+              {domains.length > 1 ? (
+                <select
+                  value={customDomain}
+                  onChange={(e) => setSelectedDomain(e.target.value)}
+                  className="px-2 py-1 text-sm border-y border-r rounded-r-md bg-muted focus:outline-none"
+                  disabled={isActionLoading}
+                  title={t('mailbox.domain')}
+                >
+                  {domains.map(domain => (
+                    <option key={domain} value={domain}>@{domain}</option>
+                  ))}
+                </select>
+              ) : (
+                <span className="px-2 py-1 text-sm border-y border-r rounded-r-md bg-muted">
+                  @{customDomain}
+                </span>
+              )}
             </div>
             <button
               type="button"
@@ -257,7 +302,7 @@ const HeaderMailbox: React.FC<HeaderMailboxProps> = ({
             {/* 邮箱地址和操作按钮 */}
             <div className="flex items-center">
               <code className="px-3 py-1.5 text-sm font-medium text-white bg-white/20 rounded">
-                {mailbox.address.includes('@') ? mailbox.address : `${mailbox.address}@${domain}`}
+                {fullAddress}
               </code>
               
               <div className="relative">
@@ -279,6 +324,38 @@ const HeaderMailbox: React.FC<HeaderMailboxProps> = ({
                 )}
               </div>
               
+              {/* 更换邮箱时的地址生成方式 */}
+              <select
+                value={addressStyle}
+                onChange={(e) => {
+                  setAddressStyle(e.target.value as AddressStyle);
+                  if (refreshError) setRefreshError(null);
+                }}
+                className="ml-1 px-1 py-1 text-xs rounded bg-white/20 text-white focus:outline-none"
+                disabled={isActionLoading}
+                title={t('mailbox.addressStyle')}
+              >
+                {ADDRESS_STYLES.map(style => (
+                  <option key={style} value={style} className="text-gray-900">
+                    {formatAddressStyle(style)}
+                  </option>
+                ))}
+              </select>
+              
+              {addressStyle === 'prefix' && (
+                <input
+                  type="text"
+                  value={addressPrefix}
+                  onChange={(e) => {
+                    setAddressPrefix(e.target.value);
+                    if (refreshError) setRefreshError(null);
+                  }}
+                  className="w-24 ml-1 px-2 py-1 text-xs rounded bg-white/20 text-white placeholder-white/60 focus:outline-none"
+                  placeholder={t('mailbox.addressPrefixPlaceholder')}
+                  disabled={isActionLoading}
+                />
+              )}
+              
               <div className="relative">
                 <button
                   onClick={handleRefreshMailbox}
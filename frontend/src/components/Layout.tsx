@@ -8,7 +8,7 @@ import { MailboxContext } from '../contexts/MailboxContext';
 
 const Layout: React.FC = () => {
   const { t } = useTranslation();
-  const { mailbox, setMailbox, isLoading } = useContext(MailboxContext);
+  const { mailbox, setMailbox, isLoading, config } = useContext(MailboxContext);
   const location = useLocation();
   
   // 根据当前路径设置不同的SEO信息
@@ -41,6 +41,7 @@ const Layout: React.FC = () => {
         mailbox={mailbox} 
         onMailboxChange={setMailbox} 
         isLoading={isLoading}
+        domains={config.domains}
       />
       <main className="flex-1 py-6">
         <Outlet />
@@ -3,6 +3,7 @@ import { useTranslation } from 'react-i18next';
 
 interface MailboxInfoProps {
   mailbox: Mailbox;
+  usage?: MailboxUsage | null;
   onDelete: () => void;
   autoRefresh: boolean;
   onToggleAutoRefresh: () => void;
@@ -10,6 +11,7 @@ interface MailboxInfoProps {
 
 const MailboxInfo: React.FC<MailboxInfoProps> = ({ 
   mailbox, 
+  usage,
   onDelete,
   autoRefresh,
   onToggleAutoRefresh
@@ -45,8 +47,25 @@ const MailboxInfo: React.FC<MailboxInfoProps> = ({
       return t('mailbox.expiresInMinutes', { minutes });
     }
   };
+  // 格式化占用空间
+  const formatBytes = (bytes: number): string => {
+    if (bytes === 0) return '0 Bytes';
+    
+    const k = 1024;
+    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+    const i = Math.min(Math.floor(Math.log(bytes) / Math.log(k)), sizes.length - 1);
+    
+    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+  };
   
-
+  // 使用比例取邮件数量和占用空间中较高的一项
+  const usagePercent = usage
+    ? Math.min(100, Math.max(
+        usage.maxBytes > 0 ? usage.bytes / usage.maxBytes * 100 : 0,
+        usage.maxEmails > 0 ? usage.emails / usage.maxEmails * 100 : 0
+      ))
+    : 0;
+  const hasQuota = !!usage && (usage.maxBytes > 0 || usage.maxEmails > 0);
   
   return (
     <div className="border rounded-lg p-6">
@@ -103,6 +122,37 @@ const MailboxInfo: React.FC<MailboxInfoProps> = ({
           <p>{calculateTimeLeft(mailbox.expiresAt)}</p>
         </div>
       </div>
+      
+      {usage && (
+        <div className="mt-4 text-sm">
+          <div className="flex justify-between mb-1">
+            <p className="text-muted-foreground">{t('mailbox.storageUsage')}</p>
+            <p>
+              {usage.maxBytes > 0
+                ? t('mailbox.usageBytes', { used: formatBytes(usage.bytes), total: formatBytes(usage.maxBytes) })
+                : formatBytes(usage.bytes)}
+              {' · '}
+              {usage.maxEmails > 0
+                ? t('mailbox.usageEmails', { count: usage.emails, max: usage.maxEmails })
+                : t('mailbox.usageEmailsUnlimited', { count: usage.emails })}
+            </p>
+          </div>
+          {hasQuota && (
+            <div
+              className="h-2 rounded-full bg-muted overflow-hidden"
+              role="progressbar"
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-valuenow={Math.round(usagePercent)}
+            >
+              <div
+                className={`h-full rounded-full ${usagePercent >= 90 ? 'bg-destructive' : 'bg-primary'}`}
+                style={{ width: `${usagePercent}%` }}
+              />
+            </div>
+          )}
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,75 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { API_BASE_URL } from '../config';
+
+interface SafeHtmlFrameProps {
+  html: string;
+  title: string;
+}
+
+// iframe 内文档的基础样式
+const FRAME_STYLE = `
+  body { margin: 0; padding: 16px; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 14px; color: #1f2937; word-wrap: break-word; }
+  img { max-width: 100%; height: auto; }
+  table { max-width: 100%; }
+`;
+
+// 邮件中的图片只能来自后端（附件和图片代理），远程图片由服务端阻止或改写为代理地址
+const getApiOrigin = () => {
+  try {
+    return new URL(API_BASE_URL || '/', window.location.href).origin;
+  } catch {
+    return "'self'";
+  }
+};
+
+// 禁止脚本、插件、表单提交和直接请求远程资源，作为服务端清理之外的第二层防护
+const FRAME_CSP = `default-src 'none'; script-src 'none'; object-src 'none'; form-action 'none'; style-src 'unsafe-inline'; img-src ${getApiOrigin()} data:; font-src data:`;
+
+// 在沙箱 iframe 中显示经过服务端清理的邮件 HTML，高度随内容自动调整
+const SafeHtmlFrame: React.FC<SafeHtmlFrameProps> = ({ html, title }) => {
+  const iframeRef = useRef<HTMLIFrameElement | null>(null);
+  const [height, setHeight] = useState(200);
+  
+  const srcDoc = `<!DOCTYPE html><html><head><meta charset="utf-8"><meta http-equiv="Content-Security-Policy" content="${FRAME_CSP}"><style>${FRAME_STYLE}</style></head><body>${html}</body></html>`;
+  
+  useEffect(() => {
+    const iframe = iframeRef.current;
+    if (!iframe) return;
+    
+    let observer: ResizeObserver | null = null;
+    
+    const handleLoad = () => {
+      const body = iframe.contentDocument?.body;
+      if (!body) return;
+      
+      const updateHeight = () => {
+        setHeight(iframe.contentDocument?.documentElement.scrollHeight || body.scrollHeight);
+      };
+      
+      updateHeight();
+      observer?.disconnect();
+      observer = new ResizeObserver(updateHeight);
+      observer.observe(body);
+    };
+    
+    iframe.addEventListener('load', handleLoad);
+    return () => {
+      iframe.removeEventListener('load', handleLoad);
+      observer?.disconnect();
+    };
+  }, [srcDoc]);
+  
+  return (
+    <iframe
+      ref={iframeRef}
+      title={title}
+      srcDoc={srcDoc}
+      // 不允许脚本执行；allow-same-origin 仅用于读取内容高度
+      sandbox="allow-same-origin allow-popups allow-popups-to-escape-sandbox"
+      className="w-full border-0 navi-card"
+      style={{ height }}
+    />
+  );
+};
+
+export default SafeHtmlFrame;
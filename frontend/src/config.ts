@@ -1,7 +1,4 @@
-// 配置文件，用于管理域名和API地址设置
-
-// 邮箱域名配置
-export const EMAIL_DOMAIN = import.meta.env.VITE_EMAIL_DOMAIN;
+// 配置文件，用于管理API地址设置（收件域名由后端 /api/config 提供）
 
 // API地址配置
 export const API_BASE_URL = import.meta.env.VITE_API_BASE_URL;
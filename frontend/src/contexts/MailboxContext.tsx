@@ -4,7 +4,10 @@ import {
   getMailboxFromLocalStorage, 
   saveMailboxToLocalStorage,
   removeMailboxFromLocalStorage,
-  getEmails
+  getEmails,
+  getConfig,
+  extendMailbox as extendMailboxApi,
+  updateMailboxRetention
 } from '../utils/api';
 import { useTranslation } from 'react-i18next';
 import { DEFAULT_AUTO_REFRESH, AUTO_REFRESH_INTERVAL } from '../config';
@@ -33,14 +36,33 @@ interface MailboxContextType {
   createNewMailbox: () => Promise<void>;
   deleteMailbox: () => void;
   refreshEmails: () => Promise<void>;
+  loadMoreEmails: () => Promise<void>;
+  hasMoreEmails: boolean;
+  isLoadingMoreEmails: boolean;
+  tagFilter: string | null;
+  setTagFilter: (tag: string | null) => void;
   emailCache: EmailCache;
   addToEmailCache: (emailId: string, email: Email, attachments: any[]) => void;
   clearEmailCache: () => void;
   handleMailboxNotFound: () => Promise<void>;
   errorMessage: string | null;
   successMessage: string | null;
+  config: AppConfig;
+  extendMailbox: () => Promise<void>;
+  updateRetention: (retention: MailboxRetention) => Promise<void>;
 }
 
+// 后端配置加载完成前使用的默认值
+const DEFAULT_CONFIG: AppConfig = {
+  domains: [],
+  lifetime: {
+    minMinutes: 10,
+    maxMinutes: 7 * 24 * 60,
+    defaultMinutes: 24 * 60,
+  },
+  imageProxy: false,
+};
+
 export const MailboxContext = createContext<MailboxContextType>({
   mailbox: null,
   setMailbox: () => {},
@@ -56,12 +78,20 @@ export const MailboxContext = createContext<MailboxContextType>({
   createNewMailbox: async () => {},
   deleteMailbox: () => {},
   refreshEmails: async () => {},
+  loadMoreEmails: async () => {},
+  hasMoreEmails: false,
+  isLoadingMoreEmails: false,
+  tagFilter: null,
+  setTagFilter: () => {},
   emailCache: {},
   addToEmailCache: () => {},
   clearEmailCache: () => {},
   handleMailboxNotFound: async () => {},
   errorMessage: null,
-  successMessage: null
+  successMessage: null,
+  config: DEFAULT_CONFIG,
+  extendMailbox: async () => {},
+  updateRetention: async () => {}
 });
 
 interface MailboxProviderProps {
@@ -75,10 +105,17 @@ export const MailboxProvider: React.FC<MailboxProviderProps> = ({ children }) =>
   const [emails, setEmails] = useState<Email[]>([]);
   const [selectedEmail, setSelectedEmail] = useState<string | null>(null);
   const [isEmailsLoading, setIsEmailsLoading] = useState(false);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoadingMoreEmails, setIsLoadingMoreEmails] = useState(false);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  // 定时器回调中需要读取最新的列表状态，使用ref保存
+  const emailsRef = useRef<Email[]>([]);
+  const nextCursorRef = useRef<string | null>(null);
   const [autoRefresh, setAutoRefresh] = useState(DEFAULT_AUTO_REFRESH);
   const [emailCache, setEmailCache] = useState<EmailCache>({});
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [config, setConfig] = useState<AppConfig>(DEFAULT_CONFIG);
   const errorTimeoutRef = useRef<number | null>(null);
   const successTimeoutRef = useRef<number | null>(null);
   
@@ -94,6 +131,18 @@ export const MailboxProvider: React.FC<MailboxProviderProps> = ({ children }) =>
     };
   }, []);
   
+  // 获取后端配置（可用域名、有效期范围等）
+  useEffect(() => {
+    const loadConfig = async () => {
+      const result = await getConfig();
+      if (result.success && result.config) {
+        setConfig(result.config);
+      }
+    };
+    
+    loadConfig();
+  }, []);
+  
   // 初始化：检查本地存储或创建新邮箱
   useEffect(() => {
     const initMailbox = async () => {
@@ -132,7 +181,9 @@ export const MailboxProvider: React.FC<MailboxProviderProps> = ({ children }) =>
         saveMailboxToLocalStorage(result.mailbox);
       } else {
         console.error('createNewMailbox: Failed to create mailbox:', result.error);
-        setErrorMessage(t('mailbox.createFailed'));
+        setErrorMessage('retryAfter' in result && result.retryAfter
+          ? t('mailbox.rateLimited', { minutes: Math.ceil(result.retryAfter / 60) })
+          : t('mailbox.createFailed'));
         
         // 3秒后清除错误信息
         if (errorTimeoutRef.current) {
@@ -151,6 +202,78 @@ export const MailboxProvider: React.FC<MailboxProviderProps> = ({ children }) =>
     }
   };
   
+  // 延长邮箱有效期
+  const extendMailbox = async () => {
+    if (!mailbox) return;
+    
+    setErrorMessage(null);
+    setSuccessMessage(null);
+    
+    const result = await extendMailboxApi(mailbox.address, mailbox.token);
+    
+    if (result.success && result.mailbox) {
+      // 后端不会返回令牌，保留本地令牌
+      const updatedMailbox = { ...mailbox, expiresAt: result.mailbox.expiresAt };
+      setMailbox(updatedMailbox);
+      saveMailboxToLocalStorage(updatedMailbox);
+      setSuccessMessage(t('mailbox.extendSuccess'));
+      
+      // 3秒后清除成功信息
+      if (successTimeoutRef.current) {
+        window.clearTimeout(successTimeoutRef.current);
+      }
+      successTimeoutRef.current = window.setTimeout(() => {
+        setSuccessMessage(null);
+      }, 3000);
+    } else {
+      setErrorMessage(t('mailbox.extendFailed'));
+      
+      // 3秒后清除错误信息
+      if (errorTimeoutRef.current) {
+        window.clearTimeout(errorTimeoutRef.current);
+      }
+      errorTimeoutRef.current = window.setTimeout(() => {
+        setErrorMessage(null);
+      }, 3000);
+    }
+  };
+  
+  // 更新邮件保留策略
+  const updateRetention = async (retention: MailboxRetention) => {
+    if (!mailbox) return;
+    
+    setErrorMessage(null);
+    setSuccessMessage(null);
+    
+    const result = await updateMailboxRetention(mailbox.address, mailbox.token, retention);
+    
+    if (result.success && result.mailbox) {
+      // 后端不会返回令牌，保留本地令牌
+      const updatedMailbox = { ...mailbox, retention: result.mailbox.retention };
+      setMailbox(updatedMailbox);
+      saveMailboxToLocalStorage(updatedMailbox);
+      setSuccessMessage(t('mailbox.retentionUpdated'));
+      
+      // 3秒后清除成功信息
+      if (successTimeoutRef.current) {
+        window.clearTimeout(successTimeoutRef.current);
+      }
+      successTimeoutRef.current = window.setTimeout(() => {
+        setSuccessMessage(null);
+      }, 3000);
+    } else {
+      setErrorMessage(t('mailbox.retentionUpdateFailed'));
+      
+      // 3秒后清除错误信息
+      if (errorTimeoutRef.current) {
+        window.clearTimeout(errorTimeoutRef.current);
+      }
+      errorTimeoutRef.current = window.setTimeout(() => {
+        setErrorMessage(null);
+      }, 3000);
+    }
+  };
+  
   // 删除邮箱
   const deleteMailbox = () => {
     setMailbox(null);
@@ -160,6 +283,14 @@ export const MailboxProvider: React.FC<MailboxProviderProps> = ({ children }) =>
     createNewMailbox();
   };
   
+  // 同步更新邮件列表与分页游标
+  const updateEmailList = (list: Email[], cursor: string | null) => {
+    emailsRef.current = list;
+    nextCursorRef.current = cursor;
+    setEmails(list);
+    setNextCursor(cursor);
+  };
+  
   // 刷新邮件列表
   const refreshEmails = async () => {
     if (!mailbox) return;
@@ -170,10 +301,23 @@ export const MailboxProvider: React.FC<MailboxProviderProps> = ({ children }) =>
     setIsEmailsLoading(true);
     
     try {
-      const result = await getEmails(mailbox.address);
+      // 只获取第一页，已经滚动加载的旧邮件保留在列表中
+      const result = await getEmails(mailbox.address, mailbox.token, { tag: tagFilter ?? undefined });
       
       if (result.success) {
-        setEmails(result.emails);
+        const firstPage = result.emails || [];
+        const oldest = firstPage[firstPage.length - 1];
+        const firstPageIds = new Set(firstPage.map(email => email.id));
+        const olderEmails = result.nextCursor && oldest
+          ? emailsRef.current.filter(email => 
+              !firstPageIds.has(email.id) && 
+              (email.receivedAt < oldest.receivedAt || (email.receivedAt === oldest.receivedAt && email.id < oldest.id)))
+          : [];
+        
+        updateEmailList(
+          [...firstPage, ...olderEmails],
+          olderEmails.length > 0 ? nextCursorRef.current : (result.nextCursor ?? null)
+        );
       } else if (result.notFound) {
         // 如果邮箱不存在，清除本地缓存并创建新邮箱
         try {
@@ -199,6 +343,38 @@ export const MailboxProvider: React.FC<MailboxProviderProps> = ({ children }) =>
     }
   };
   
+  // 加载下一页邮件
+  const loadMoreEmails = async () => {
+    const cursor = nextCursorRef.current;
+    if (!mailbox || !cursor || isLoadingMoreEmails) return;
+    
+    setIsLoadingMoreEmails(true);
+    
+    try {
+      const result = await getEmails(mailbox.address, mailbox.token, { cursor, tag: tagFilter ?? undefined });
+      
+      if (result.success) {
+        const loadedIds = new Set(emailsRef.current.map(email => email.id));
+        const newEmails = (result.emails || []).filter(email => !loadedIds.has(email.id));
+        updateEmailList([...emailsRef.current, ...newEmails], result.nextCursor ?? null);
+      }
+    } catch (error) {
+      console.error('Error loading more emails:', error);
+    } finally {
+      setIsLoadingMoreEmails(false);
+    }
+  };
+  
+  // 切换邮箱时清除标签筛选
+  useEffect(() => {
+    setTagFilter(null);
+  }, [mailbox?.address]);
+  
+  // 切换邮箱或标签筛选时清空已加载的邮件列表
+  useEffect(() => {
+    updateEmailList([], null);
+  }, [mailbox?.address, tagFilter]);
+  
   // 自动刷新邮件
   useEffect(() => {
     if (!mailbox) return;
@@ -217,7 +393,7 @@ export const MailboxProvider: React.FC<MailboxProviderProps> = ({ children }) =>
         clearInterval(intervalId);
       }
     };
-  }, [mailbox, autoRefresh]);
+  }, [mailbox, autoRefresh, tagFilter]);
   
   // 处理邮箱不存在的情况
   const handleMailboxNotFound = async () => {
@@ -343,12 +519,20 @@ export const MailboxProvider: React.FC<MailboxProviderProps> = ({ children }) =>
         createNewMailbox,
         deleteMailbox,
         refreshEmails,
+        loadMoreEmails,
+        hasMoreEmails: !!nextCursor,
+        isLoadingMoreEmails,
+        tagFilter,
+        setTagFilter,
         emailCache,
         addToEmailCache,
         clearEmailCache,
         handleMailboxNotFound,
         errorMessage,
-        successMessage
+        successMessage,
+        config,
+        extendMailbox,
+        updateRetention
       }}
     >
       {/* 错误和成功提示 */}
@@ -6,19 +6,25 @@ import EmailDetail from '../components/EmailDetail';
 import MailboxInfo from '../components/MailboxInfo';
 import { API_BASE_URL } from '../config';
 import { MailboxContext } from '../contexts/MailboxContext';
+import { getAuthHeaders, getMailbox } from '../utils/api';
 
 const MailboxPage: React.FC = () => {
   const { address } = useParams<{ address: string }>();
   const { t } = useTranslation();
   const navigate = useNavigate();
   const { 
+    mailbox: currentMailbox,
     emails, 
     isEmailsLoading, 
     autoRefresh, 
     setAutoRefresh 
   } = useContext(MailboxContext);
   
+  // 只有当前浏览器创建的邮箱才持有访问令牌
+  const token = currentMailbox?.address === address ? currentMailbox?.token : undefined;
+  
   const [mailbox, setMailbox] = useState<Mailbox | null>(null);
+  const [usage, setUsage] = useState<MailboxUsage | null>(null);
   const [selectedEmail, setSelectedEmail] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
@@ -45,10 +51,12 @@ const MailboxPage: React.FC = () => {
     const fetchMailbox = async () => {
       try {
         setIsLoading(true);
-        const response = await fetch(`${API_BASE_URL}/api/mailboxes/${address}`);
+        const response = await fetch(`${API_BASE_URL}/api/mailboxes/${address}`, {
+          headers: getAuthHeaders(token),
+        });
         
         if (!response.ok) {
-          if (response.status === 404) {
+          if (response.status === 404 || response.status === 401 || response.status === 403) {
             setErrorMessage(t('mailbox.invalidAddress'));
             
             // 3秒后导航到首页
@@ -66,6 +74,7 @@ const MailboxPage: React.FC = () => {
         const data = await response.json();
         if (data.success) {
           setMailbox(data.mailbox);
+          setUsage(data.usage || null);
         } else {
           throw new Error(data.error || 'Unknown error');
         }
@@ -85,7 +94,18 @@ const MailboxPage: React.FC = () => {
     };
     
     fetchMailbox();
-  }, [address, navigate, t]);
+  }, [address, navigate, t, token]);
+  
+  // 邮件列表变化后刷新使用量
+  useEffect(() => {
+    if (!address || !mailbox) return;
+    
+    getMailbox(address, token).then(result => {
+      if (result.success && result.usage) {
+        setUsage(result.usage);
+      }
+    });
+  }, [address, token, mailbox, emails.length]);
   
   // 处理删除邮箱
   const handleDeleteMailbox = async () => {
@@ -94,6 +114,7 @@ const MailboxPage: React.FC = () => {
     try {
       const response = await fetch(`${API_BASE_URL}/api/mailboxes/${address}`, {
         method: 'DELETE',
+        headers: getAuthHeaders(token),
       });
       
       if (!response.ok) {
@@ -142,6 +163,7 @@ const MailboxPage: React.FC = () => {
       {mailbox && (
         <MailboxInfo
           mailbox={mailbox}
+          usage={usage}
           onDelete={handleDeleteMailbox}
           autoRefresh={autoRefresh}
           onToggleAutoRefresh={() => setAutoRefresh(!autoRefresh)}
@@ -4,14 +4,68 @@ declare module '*.json' {
   export default value;
 }
 
+// 邮件保留策略：保留到邮箱过期、阅读后 N 分钟删除、首次阅读后删除、保留 N 天
+type RetentionPolicy = 'expiry' | 'after_read' | 'burn' | 'days';
+
+// 随机邮箱地址的生成方式：随机字母数字、可拼读的音节、形容词-名词-数字、指定前缀加随机后缀
+type AddressStyle = 'random' | 'pronounceable' | 'words' | 'prefix';
+
+// 邮件保留设置，value 在 after_read 时为分钟数，在 days 时为天数
+interface MailboxRetention {
+  policy: RetentionPolicy;
+  value: number | null;
+}
+
+// 邮箱的发件人规则
+interface SenderRule {
+  id: string;
+  mailboxId: string;
+  action: 'allow' | 'block';
+  pattern: string; // 完整地址、域名或通配规则
+  createdAt: number;
+}
+
 // 定义邮箱相关类型
 interface Mailbox {
   id: string;
-  address: string;
+  address: string; // 完整邮箱地址（用户名@域名）
+  domain?: string;
   createdAt: number;
   expiresAt: number;
   lastAccessed: number;
   ipAddress?: string;
+  token?: string; // 创建邮箱时返回的访问令牌
+  retention?: MailboxRetention;
+}
+
+// 邮箱使用量（上限为 0 表示不限制）
+interface MailboxUsage {
+  emails: number;
+  bytes: number;
+  maxEmails: number;
+  maxBytes: number;
+}
+
+// 后端公开配置
+interface AppConfig {
+  domains: string[];
+  lifetime: {
+    minMinutes: number;
+    maxMinutes: number;
+    defaultMinutes: number;
+  };
+  imageProxy: boolean;
+}
+
+interface EmailAddress {
+  address: string;
+  name?: string;
+}
+
+interface StrippedItem {
+  kind: 'element' | 'attribute' | 'url' | 'css';
+  name: string;
+  count: number;
 }
 
 interface Email {
@@ -26,6 +80,47 @@ interface Email {
   receivedAt: number;
   hasAttachments: boolean;
   isRead: boolean;
+  rawSize?: number;
+  to?: EmailAddress[];
+  cc?: EmailAddress[];
+  replyTo?: EmailAddress[];
+  tag?: string | null;
+  verificationCode?: string | null;
+  verificationLinks?: string[];
+  stripped?: StrippedItem[];
+  remoteContent?: RemoteContentInfo;
+  privacyReport?: PrivacyReport | null;
+}
+
+interface TrackerItem {
+  type: 'pixel' | 'param' | 'redirect';
+  url: string;
+  host: string;
+  params?: string[];
+}
+
+interface CleanLink {
+  original: string;
+  clean: string;
+}
+
+interface PrivacyReport {
+  trackers: TrackerItem[];
+  links: CleanLink[];
+}
+
+interface RemoteContentInfo {
+  count: number;
+  blocked: boolean;
+}
+
+interface SearchSnippetSegment {
+  text: string;
+  highlight: boolean;
+}
+
+interface EmailSearchResult extends Email {
+  snippet: SearchSnippetSegment[];
 }
 
 interface Attachment {
@@ -51,7 +146,6 @@ interface Toast {
 // 声明环境变量类型
 interface ImportMetaEnv {
   readonly VITE_API_URL: string;
-  readonly VITE_EMAIL_DOMAIN: string;
   readonly VITE_API_BASE_URL: string;
   readonly MODE: string;
   readonly DEV: boolean;
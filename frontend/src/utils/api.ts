@@ -1,13 +1,78 @@
 import { API_BASE_URL } from "../config";
+import { solveChallenge, ProofOfWork } from "./pow";
 
 // API请求基础URL
 const apiUrl = (path: string) => `${API_BASE_URL}${path}`;
 
+// 生成携带邮箱访问令牌的请求头
+export const getAuthHeaders = (token?: string): Record<string, string> => 
+  token ? { Authorization: `Bearer ${token}` } : {};
+
+// 为无法设置请求头的下载链接（原始邮件、附件下载和预览）附加访问令牌，其他接口只接受 Authorization 头
+export const withToken = (url: string, token?: string) => {
+  if (!token) return url;
+  return `${url}${url.includes('?') ? '&' : '?'}token=${encodeURIComponent(token)}`;
+};
+
+// 创建邮箱的可选参数
+export interface CreateMailboxOptions {
+  expiresInMinutes?: number; // 不传时使用后端默认有效期
+  domain?: string;
+  retention?: MailboxRetention; // 不传时邮件保留到邮箱过期
+  style?: AddressStyle; // 随机地址的生成方式，不传时使用后端默认方式
+  prefix?: string; // style 为 prefix 时使用的前缀
+}
+
+// 获取后端公开配置（可用域名等）
+export const getConfig = async () => {
+  try {
+    const response = await fetch(apiUrl('/api/config'));
+    
+    if (!response.ok) {
+      throw new Error('Failed to fetch config');
+    }
+    
+    const data = await response.json();
+    if (data.success) {
+      return { success: true, config: data.config as AppConfig };
+    } else {
+      throw new Error(data.error || 'Unknown error');
+    }
+  } catch (error) {
+    console.error('Error fetching config:', error);
+    return { success: false, error };
+  }
+};
+
+// 读取被频率限制时需要等待的秒数
+const getRetryAfter = (response: Response, data: any): number => 
+  Number(response.headers.get('Retry-After')) || Number(data?.retryAfter) || 60;
+
+// 当前IP需要时获取工作量证明挑战并在 Web Worker 中求解，不需要时返回 undefined
+const getProofOfWork = async (): Promise<ProofOfWork | undefined> => {
+  const response = await fetch(apiUrl('/api/challenge'));
+  if (!response.ok) {
+    throw new Error('Failed to fetch challenge');
+  }
+  
+  const data = await response.json();
+  if (!data.success || !data.required || !data.challenge) {
+    return undefined;
+  }
+  
+  return solveChallenge(data.challenge.challenge, data.challenge.difficulty);
+};
+
 // 创建随机邮箱
-export const createRandomMailbox = async (expiresInHours = 24) => {
+export const createRandomMailbox = async ({ expiresInMinutes, domain, retention, style, prefix }: CreateMailboxOptions = {}) => {
   try {
     const requestBody = JSON.stringify({
-      expiresInHours,
+      expiresInMinutes,
+      domain,
+      retention,
+      style,
+      prefix,
+      pow: await getProofOfWork(),
     });
     
     const response = await fetch(apiUrl('/api/mailboxes'), {
@@ -18,6 +83,11 @@ export const createRandomMailbox = async (expiresInHours = 24) => {
       body: requestBody,
     });
     
+    if (response.status === 429) {
+      const data = await response.json();
+      return { success: false, error: data.error || 'Too many requests', retryAfter: getRetryAfter(response, data) };
+    }
+    
     if (!response.ok) {
       throw new Error('Failed to create mailbox');
     }
@@ -25,7 +95,7 @@ export const createRandomMailbox = async (expiresInHours = 24) => {
     const data = await response.json();
     
     if (data.success) {
-      return { success: true, mailbox: data.mailbox };
+      return { success: true, mailbox: { ...data.mailbox, token: data.token } as Mailbox };
     } else {
       throw new Error(data.error || 'Unknown error');
     }
@@ -35,7 +105,7 @@ export const createRandomMailbox = async (expiresInHours = 24) => {
 };
 
 // 创建自定义邮箱
-export const createCustomMailbox = async (address: string, expiresInHours = 24) => {
+export const createCustomMailbox = async (address: string, { expiresInMinutes, domain, retention }: CreateMailboxOptions = {}) => {
   try {
     if (!address.trim()) {
       return { success: false, error: 'Invalid address' };
@@ -48,7 +118,10 @@ export const createCustomMailbox = async (address: string, expiresInHours = 24)
       },
       body: JSON.stringify({
         address: address.trim(),
-        expiresInHours,
+        expiresInMinutes,
+        domain,
+        retention,
+        pow: await getProofOfWork(),
       }),
     });
     
@@ -56,6 +129,9 @@ export const createCustomMailbox = async (address: string, expiresInHours = 24)
     const data = await response.json();
     
     if (!response.ok) {
+      if (response.status === 429) {
+        return { success: false, error: data.error || 'Too many requests', retryAfter: getRetryAfter(response, data) };
+      }
       if (response.status === 400) {
         // 使用后端返回的错误信息
         return { success: false, error: data.error || 'Address already exists' };
@@ -64,7 +140,7 @@ export const createCustomMailbox = async (address: string, expiresInHours = 24)
     }
     
     if (data.success) {
-      return { success: true, mailbox: data.mailbox };
+      return { success: true, mailbox: { ...data.mailbox, token: data.token } as Mailbox };
     } else {
       throw new Error(data.error || 'Unknown error');
     }
@@ -75,12 +151,14 @@ export const createCustomMailbox = async (address: string, expiresInHours = 24)
 };
 
 // 获取邮箱信息
-export const getMailbox = async (address: string) => {
+export const getMailbox = async (address: string, token?: string) => {
   try {
-    const response = await fetch(apiUrl(`/api/mailboxes/${address}`));
+    const response = await fetch(apiUrl(`/api/mailboxes/${encodeURIComponent(address)}`), {
+      headers: getAuthHeaders(token),
+    });
     
     if (!response.ok) {
-      if (response.status === 404) {
+      if (response.status === 404 || response.status === 401 || response.status === 403) {
         return { success: false, error: 'Mailbox not found' };
       }
       throw new Error('Failed to fetch mailbox');
@@ -88,7 +166,7 @@ export const getMailbox = async (address: string) => {
     
     const data = await response.json();
     if (data.success) {
-      return { success: true, mailbox: data.mailbox };
+      return { success: true, mailbox: data.mailbox, usage: data.usage as MailboxUsage };
     } else {
       throw new Error(data.error || 'Unknown error');
     }
@@ -98,18 +176,40 @@ export const getMailbox = async (address: string) => {
   }
 };
 
-// 获取邮件列表
-export const getEmails = async (address: string) => {
+// 邮件列表查询参数
+export interface EmailListParams {
+  cursor?: string;
+  limit?: number;
+  since?: number;
+  unread?: boolean;
+  hasAttachments?: boolean;
+  from?: string;
+  tag?: string;
+  sort?: 'asc' | 'desc';
+}
+
+// 获取邮件列表（分页）
+export const getEmails = async (address: string, token?: string, params: EmailListParams = {}) => {
   try {
     // 检查地址是否为空
     if (!address) {
       return { success: false, error: 'Address is empty', emails: [] };
     }
     
-    const response = await fetch(apiUrl(`/api/mailboxes/${address}/emails`));
+    const query = new URLSearchParams();
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') {
+        query.set(key, String(value));
+      }
+    });
+    const queryString = query.toString();
+    
+    const response = await fetch(apiUrl(`/api/mailboxes/${encodeURIComponent(address)}/emails${queryString ? `?${queryString}` : ''}`), {
+      headers: getAuthHeaders(token),
+    });
     
-    // 直接处理404状态码
-    if (response.status === 404) {
+    // 直接处理404状态码，令牌失效（401/403）时同样视为邮箱不可用
+    if (response.status === 404 || response.status === 401 || response.status === 403) {
       return { success: false, error: 'Mailbox not found', notFound: true };
     }
     
@@ -120,7 +220,7 @@ export const getEmails = async (address: string) => {
     const data = await response.json();
     
     if (data.success) {
-      return { success: true, emails: data.emails };
+      return { success: true, emails: data.emails as Email[], nextCursor: data.nextCursor as string | null };
     } else {
       // 检查错误信息是否包含"邮箱不存在"
       if (data.error && (data.error.includes('邮箱不存在') || data.error.includes('Mailbox not found'))) {
@@ -133,11 +233,103 @@ export const getEmails = async (address: string) => {
   }
 };
 
+// 全文搜索邮件
+export const searchEmails = async (address: string, token: string | undefined, query: string) => {
+  try {
+    const response = await fetch(apiUrl(`/api/mailboxes/${encodeURIComponent(address)}/search?q=${encodeURIComponent(query)}`), {
+      headers: getAuthHeaders(token),
+    });
+    
+    const data = await response.json();
+    if (response.ok && data.success) {
+      return { success: true, results: data.results as EmailSearchResult[] };
+    } else {
+      throw new Error(data.error || 'Failed to search emails');
+    }
+  } catch (error) {
+    console.error('Error searching emails:', error);
+    return { success: false, error, results: [] as EmailSearchResult[] };
+  }
+};
+
+// 延长邮箱有效期
+export const extendMailbox = async (address: string, token?: string, minutes?: number) => {
+  try {
+    const response = await fetch(apiUrl(`/api/mailboxes/${encodeURIComponent(address)}/extend`), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...getAuthHeaders(token),
+      },
+      body: JSON.stringify({ minutes }),
+    });
+    
+    const data = await response.json();
+    if (response.ok && data.success) {
+      return { success: true, mailbox: data.mailbox as Mailbox };
+    } else {
+      throw new Error(data.error || 'Failed to extend mailbox');
+    }
+  } catch (error) {
+    console.error('Error extending mailbox:', error);
+    return { success: false, error };
+  }
+};
+
+// 更新邮箱的邮件保留策略
+export const updateMailboxRetention = async (address: string, token: string | undefined, retention: MailboxRetention) => {
+  try {
+    const response = await fetch(apiUrl(`/api/mailboxes/${encodeURIComponent(address)}/retention`), {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        ...getAuthHeaders(token),
+      },
+      body: JSON.stringify(retention),
+    });
+    
+    const data = await response.json();
+    if (response.ok && data.success) {
+      return { success: true, mailbox: data.mailbox as Mailbox };
+    } else {
+      throw new Error(data.error || 'Failed to update retention policy');
+    }
+  } catch (error) {
+    console.error('Error updating retention policy:', error);
+    return { success: false, error };
+  }
+};
+
+// 添加发件人规则（默认屏蔽）
+export const addSenderRule = async (address: string, token: string | undefined, pattern: string, action: SenderRule['action'] = 'block') => {
+  try {
+    const response = await fetch(apiUrl(`/api/mailboxes/${encodeURIComponent(address)}/senders`), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...getAuthHeaders(token),
+      },
+      body: JSON.stringify({ pattern, action }),
+    });
+    
+    const data = await response.json();
+    if (response.ok && data.success) {
+      return { success: true, rule: data.rule as SenderRule };
+    } else {
+      throw new Error(data.error || 'Failed to add sender rule');
+    }
+  } catch (error) {
+    console.error('Error adding sender rule:', error);
+    return { success: false, error };
+  }
+};
+
 // 删除邮箱
-export const deleteMailbox = async (address: string) => {
+export const deleteMailbox = async (address: string, token?: string) => {
   try {
-    const response = await fetch(apiUrl(`/api/mailboxes/${address}`), {
+    const response = await fetch(apiUrl(`/api/mailboxes/${encodeURIComponent(address)}`), {
       method: 'DELETE',
+      headers: getAuthHeaders(token),
     });
     
     if (!response.ok) {
@@ -189,4 +381,31 @@ export const getMailboxFromLocalStorage = (): Mailbox | null => {
 // 从本地存储删除邮箱信息
 export const removeMailboxFromLocalStorage = () => {
   localStorage.removeItem('tempMailbox');
-}; 
\ No newline at end of file
+};
+
+// 本地存储中始终加载远程内容的发件人
+const REMOTE_CONTENT_SENDERS_KEY = 'remoteContentSenders';
+
+// 获取始终加载远程内容的发件人列表
+export const getRemoteContentSenders = (): string[] => {
+  try {
+    const senders = JSON.parse(localStorage.getItem(REMOTE_CONTENT_SENDERS_KEY) || '[]');
+    return Array.isArray(senders) ? senders : [];
+  } catch (error) {
+    localStorage.removeItem(REMOTE_CONTENT_SENDERS_KEY);
+    return [];
+  }
+};
+
+// 检查发件人是否已设置为始终加载远程内容
+export const isRemoteContentSender = (sender: string) =>
+  getRemoteContentSenders().includes(sender.toLowerCase());
+
+// 将发件人设置为始终加载远程内容
+export const addRemoteContentSender = (sender: string) => {
+  const senders = getRemoteContentSenders();
+  const normalized = sender.toLowerCase();
+  if (!senders.includes(normalized)) {
+    localStorage.setItem(REMOTE_CONTENT_SENDERS_KEY, JSON.stringify([...senders, normalized]));
+  }
+};
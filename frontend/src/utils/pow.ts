@@ -0,0 +1,23 @@
+// 工作量证明的提交内容
+export interface ProofOfWork {
+  challenge: string;
+  solution: string;
+}
+
+// 在 Web Worker 中求解工作量证明挑战
+export const solveChallenge = (challenge: string, difficulty: number): Promise<ProofOfWork> => 
+  new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./pow.worker.ts', import.meta.url), { type: 'module' });
+    
+    worker.onmessage = (event: MessageEvent<{ solution: string }>) => {
+      worker.terminate();
+      resolve({ challenge, solution: event.data.solution });
+    };
+    
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'Failed to solve challenge'));
+    };
+    
+    worker.postMessage({ challenge, difficulty });
+  });
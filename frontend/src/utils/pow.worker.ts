@@ -0,0 +1,25 @@
+// 在 Web Worker 中求解工作量证明挑战，避免阻塞页面
+// 找到 solution，使 SHA-256(challenge + ':' + solution) 的前 difficulty 个比特为 0
+
+const encoder = new TextEncoder();
+
+// 判断哈希是否以指定数量的 0 比特开头
+const hasLeadingZeroBits = (digest: Uint8Array, bits: number) => {
+  for (let i = 0; i < bits; i++) {
+    if (digest[i >> 3] & (0x80 >> (i & 7))) return false;
+  }
+  return true;
+};
+
+self.onmessage = async (event: MessageEvent<{ challenge: string; difficulty: number }>) => {
+  const { challenge, difficulty } = event.data;
+  
+  for (let counter = 0; ; counter++) {
+    const solution = counter.toString(36);
+    const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', encoder.encode(`${challenge}:${solution}`)));
+    if (hasLeadingZeroBits(digest, difficulty)) {
+      self.postMessage({ solution });
+      return;
+    }
+  }
+};
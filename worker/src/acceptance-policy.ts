@@ -0,0 +1,202 @@
+import * as PostalMimeModule from 'postal-mime';
+import { Env, MailboxMatch, RejectionRule } from './types';
+import { findMailboxForRecipient, isExpiredMailbox, saveRejectedMail } from './database';
+import { getAcceptancePolicyConfig, getQuotaConfig, getSubaddressSeparator } from './config';
+import { checkMessageSize } from './quota';
+
+const { addressParser } = PostalMimeModule;
+
+// 收件策略的判断结果：接收时返回收件邮箱，拒收时返回触发的规则和原因
+export type AcceptanceDecision =
+  | { accepted: true; matches: MailboxMatch[] }
+  | { accepted: false; rule: RejectionRule; reason: string };
+
+/**
+ * 在读取邮件正文之前，根据信封和邮件头判断是否接收邮件
+ * 依次检查：邮件大小、发件域名黑名单、SPF/DKIM 验证、收件邮箱是否存在
+ * @param env 环境变量
+ * @param message 邮件消息
+ * @returns 判断结果
+ */
+export async function evaluateAcceptance(env: Env, message: any): Promise<AcceptanceDecision> {
+  const policy = getAcceptancePolicyConfig(env);
+  const headers: Headers = message.headers;
+  
+  const sizeError = checkMessageSize(getQuotaConfig(env), message.rawSize || 0);
+  if (sizeError) {
+    return { accepted: false, rule: 'message_size', reason: sizeError };
+  }
+  
+  // 同时检查信封发件人和 From 头，任一域名在黑名单中即拒收
+  const senders = [message.from, getHeaderAddresses(headers, 'from')[0]].filter(Boolean) as string[];
+  for (const sender of senders) {
+    const domain = getAddressDomain(sender);
+    if (domain && isDeniedDomain(domain, policy.deniedSenderDomains)) {
+      return { accepted: false, rule: 'sender_domain', reason: `Sender domain ${domain} is not accepted` };
+    }
+  }
+  
+  if (policy.requireSenderAuth && !hasPassingSenderAuth(headers, policy.authServId)) {
+    return { accepted: false, rule: 'sender_auth', reason: 'Message failed SPF and DKIM authentication' };
+  }
+  
+  const matches = await resolveMailboxes(env, message.to, headers);
+  if (matches.length === 0 && policy.rejectUnknownRecipients) {
+    const recipient = (message.to || '').toLowerCase();
+    if (recipient && await isExpiredMailbox(env.DB, recipient)) {
+      return { accepted: false, rule: 'expired_mailbox', reason: `Mailbox ${recipient} has expired` };
+    }
+    return { accepted: false, rule: 'unknown_recipient', reason: `No such mailbox: ${recipient || 'unknown recipient'}` };
+  }
+  
+  return { accepted: true, matches };
+}
+
+/**
+ * 拒收邮件并记录到拒收日志，原因会通过 SMTP 返回给发件服务器
+ * @param env 环境变量
+ * @param message 邮件消息
+ * @param rule 触发的规则
+ * @param reason 拒收原因
+ */
+export async function rejectMail(env: Env, message: any, rule: RejectionRule, reason: string): Promise<void> {
+  console.log(`拒收邮件 (${rule}):`, reason);
+  message.setReject(reason);
+  
+  // 记录失败不影响拒收
+  try {
+    await saveRejectedMail(env.DB, {
+      rule,
+      reason,
+      fromAddress: message.from || '',
+      toAddress: message.to || '',
+      size: message.rawSize || 0,
+    });
+  } catch (error) {
+    console.error('保存拒收记录失败:', error);
+  }
+}
+
+/**
+ * 查找邮件对应的本地邮箱
+ * Email Routing 会为每个信封收件人单独调用一次，因此信封收件人存在时只投递到该邮箱（不存在则不投递）；
+ * 只有缺少信封收件人时才投递到To和Cc头中所有存在的本地邮箱
+ * @param env 环境变量
+ * @param envelopeTo SMTP信封收件人
+ * @param headers 邮件头
+ * @returns 按邮箱去重后的匹配结果
+ */
+async function resolveMailboxes(env: Env, envelopeTo: string | undefined, headers: Headers): Promise<MailboxMatch[]> {
+  const separator = getSubaddressSeparator(env);
+  
+  if (envelopeTo) {
+    const match = await findMailboxForRecipient(env.DB, envelopeTo.toLowerCase(), separator);
+    return match ? [match] : [];
+  }
+  
+  const matches: MailboxMatch[] = [];
+  const candidates = new Set(
+    [...getHeaderAddresses(headers, 'to'), ...getHeaderAddresses(headers, 'cc')].map(address => address.toLowerCase())
+  );
+  
+  for (const address of candidates) {
+    const match = await findMailboxForRecipient(env.DB, address, separator);
+    if (match && !matches.some(item => item.mailbox.id === match.mailbox.id)) {
+      matches.push(match);
+    }
+  }
+  
+  return matches;
+}
+
+/**
+ * 读取地址类邮件头中的所有地址（地址组展开为其成员）
+ * @param headers 邮件头
+ * @param name 邮件头名称
+ * @returns 地址列表
+ */
+function getHeaderAddresses(headers: Headers | undefined, name: string): string[] {
+  const value = headers?.get(name);
+  if (!value) return [];
+  
+  return addressParser(value, { flatten: true })
+    .map(item => item.address)
+    .filter((address): address is string => !!address);
+}
+
+/**
+ * 获取邮件地址的域名部分
+ * @param address 邮件地址
+ * @returns 域名（小写），无效地址返回 null
+ */
+function getAddressDomain(address: string): string | null {
+  const atIndex = address.lastIndexOf('@');
+  return atIndex > 0 ? address.substring(atIndex + 1).trim().toLowerCase() || null : null;
+}
+
+/**
+ * 判断域名是否在黑名单中（黑名单中的域名同时匹配其子域名）
+ * @param domain 域名
+ * @param deniedDomains 黑名单
+ * @returns 是否拒收
+ */
+function isDeniedDomain(domain: string, deniedDomains: string[]): boolean {
+  return deniedDomains.some(denied => domain === denied || domain.endsWith(`.${denied}`));
+}
+
+/**
+ * 判断邮件是否通过 SPF 或 DKIM 验证
+ * 只读取最上面一个 Authentication-Results 邮件头，并要求其 authserv-id 为收件服务：
+ * 下面的邮件头都可以由发件人伪造；ARC-Authentication-Results 和 Received-SPF 同样可以伪造，且没有验证 ARC 链，因此不使用
+ * @param headers 邮件头
+ * @param authServId 收件服务的 authserv-id
+ * @returns 是否通过验证
+ */
+function hasPassingSenderAuth(headers: Headers | undefined, authServId: string): boolean {
+  const header = headers ? getTopmostHeader(headers, 'authentication-results') : null;
+  if (!header) return false;
+  
+  // authserv-id 后面可以跟版本号，例如 "mx.cloudflare.net 1"
+  const [id, ...results] = header.split(';');
+  if (id.trim().split(/\s+/)[0]?.toLowerCase() !== authServId) return false;
+  
+  return results.some(result => /^\s*(spf|dkim)(\/\d+)?\s*=\s*pass\b/i.test(result));
+}
+
+/**
+ * 获取同名邮件头中最上面的一个，并去掉其中的注释
+ * Headers.get() 会用逗号连接所有同名邮件头，Authentication-Results 在注释和引号之外不会出现逗号
+ * @param headers 邮件头
+ * @param name 邮件头名称
+ * @returns 去掉注释后的邮件头，不存在时返回 null
+ */
+function getTopmostHeader(headers: Headers, name: string): string | null {
+  const value = headers.get(name);
+  if (value === null) return null;
+  
+  let result = '';
+  let depth = 0;
+  let quoted = false;
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (char === '\\' && (quoted || depth > 0)) {
+      if (quoted) result += value.substring(i, i + 2);
+      i++;
+    } else if (quoted) {
+      result += char;
+      quoted = char !== '"';
+    } else if (char === '(') {
+      depth++;
+    } else if (depth > 0) {
+      if (char === ')') depth--;
+      if (depth === 0) result += ' ';
+    } else if (char === ',') {
+      break;
+    } else {
+      quoted = char === '"';
+      result += char;
+    }
+  }
+  
+  return result;
+}
@@ -0,0 +1,120 @@
+import { D1Database } from '@cloudflare/workers-types';
+import { AddressOptions, CreateMailboxParams, Mailbox } from './types';
+import { createMailbox, isAddressTaken } from './database';
+import { generateRandomString, randomInt } from './utils';
+
+// 地址冲突时最多重新生成的次数
+const MAX_ATTEMPTS = 5;
+
+// prefix 方式追加的随机后缀长度
+const PREFIX_SUFFIX_LENGTH = 6;
+
+// 可拼读地址使用的辅音和元音（去掉容易混淆的 q、w、x、y）
+const CONSONANTS = 'bcdfghjklmnprstvz';
+const VOWELS = 'aeiou';
+
+// words 方式使用的词表
+const ADJECTIVES = [
+  'able', 'amber', 'brave', 'bright', 'brisk', 'calm', 'clever', 'cosmic', 'crisp', 'curly', 'dapper', 'eager',
+  'early', 'fancy', 'fluffy', 'fond', 'gentle', 'giant', 'glad', 'golden', 'grand', 'happy', 'hardy', 'humble',
+  'icy', 'jolly', 'keen', 'kind', 'lively', 'lucky', 'lunar', 'mellow', 'merry', 'mighty', 'misty', 'modest',
+  'noble', 'nimble', 'olive', 'polite', 'proud', 'quick', 'quiet', 'rapid', 'rosy', 'royal', 'rustic', 'shiny',
+  'silent', 'silver', 'sleepy', 'smooth', 'snowy', 'solar', 'spicy', 'steady', 'sunny', 'swift', 'tidy', 'tiny',
+  'vivid', 'warm', 'witty', 'zesty',
+];
+const NOUNS = [
+  'acorn', 'badger', 'beacon', 'beaver', 'bison', 'breeze', 'canyon', 'cedar', 'cloud', 'comet', 'coral', 'crane',
+  'delta', 'dolphin', 'eagle', 'ember', 'falcon', 'fern', 'finch', 'fjord', 'fox', 'galaxy', 'garnet', 'glacier',
+  'harbor', 'hazel', 'heron', 'island', 'jaguar', 'kayak', 'koala', 'lagoon', 'lantern', 'lemur', 'lotus', 'maple',
+  'meadow', 'meteor', 'moose', 'nebula', 'oak', 'orca', 'otter', 'owl', 'panda', 'pebble', 'pine', 'planet',
+  'puffin', 'quartz', 'raven', 'reef', 'river', 'robin', 'sparrow', 'summit', 'thistle', 'tiger', 'tulip', 'valley',
+  'walrus', 'willow', 'yak', 'zebra',
+];
+
+/**
+ * 按指定方式生成邮箱用户名
+ * @param options 生成参数
+ * @returns 邮箱用户名
+ */
+export function generateLocalPart(options: AddressOptions): string {
+  switch (options.style) {
+    case 'pronounceable':
+      return generatePronounceable(options.length);
+    case 'words':
+      return `${pick(ADJECTIVES)}-${pick(NOUNS)}-${String(randomInt(10000)).padStart(4, '0')}`;
+    case 'prefix': {
+      // 前缀以分隔符结尾时不再添加 -
+      const prefix = options.prefix || '';
+      const separator = /[._-]$/.test(prefix) ? '' : '-';
+      return `${prefix}${separator}${generateRandomString(PREFIX_SUFFIX_LENGTH)}`;
+    }
+    default:
+      return generateRandomString(options.length);
+  }
+}
+
+/**
+ * 地址未被占用时创建邮箱
+ * 已过期但尚未清理的邮箱仍占用地址，并发创建同一地址时由唯一约束保证只有一个成功
+ * @param db 数据库实例
+ * @param params 参数
+ * @returns 创建的邮箱，地址已被占用时返回 null
+ */
+export async function createMailboxIfAvailable(db: D1Database, params: CreateMailboxParams): Promise<Mailbox | null> {
+  if (await isAddressTaken(db, params.address)) return null;
+  
+  try {
+    return await createMailbox(db, params);
+  } catch (error) {
+    if (isUniqueConstraintError(error)) return null;
+    throw error;
+  }
+}
+
+/**
+ * 使用随机生成的地址创建邮箱，地址冲突时自动重新生成
+ * @param db 数据库实例
+ * @param options 生成参数
+ * @param params 除地址外的创建参数
+ * @returns 创建的邮箱，多次重试后仍然冲突时返回 null
+ */
+export async function createMailboxWithGeneratedAddress(db: D1Database, options: AddressOptions, params: Omit<CreateMailboxParams, 'address'>): Promise<Mailbox | null> {
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const mailbox = await createMailboxIfAvailable(db, { ...params, address: `${generateLocalPart(options)}@${params.domain}` });
+    if (mailbox) return mailbox;
+  }
+  
+  return null;
+}
+
+/**
+ * 判断是否为唯一约束冲突错误
+ * @param error 错误
+ * @returns 是否为唯一约束冲突
+ */
+function isUniqueConstraintError(error: unknown): boolean {
+  return /UNIQUE constraint failed/i.test(error instanceof Error ? error.message : String(error));
+}
+
+/**
+ * 生成由辅音和元音交替组成的可拼读字符串
+ * @param length 字符串长度
+ * @returns 可拼读字符串
+ */
+function generatePronounceable(length: number): string {
+  let result = '';
+  for (let i = 0; i < length; i++) {
+    const letters = i % 2 === 0 ? CONSONANTS : VOWELS;
+    result += letters.charAt(randomInt(letters.length));
+  }
+  return result;
+}
+
+/**
+ * 从列表中随机选择一项
+ * @param items 列表
+ * @returns 随机选择的项
+ */
+function pick<T>(items: T[]): T {
+  return items[randomInt(items.length)];
+}
@@ -0,0 +1,239 @@
+import { R2Bucket } from '@cloudflare/workers-types';
+import { Env, Attachment, AttachmentStorageType, SaveAttachmentParams, ByteRange } from './types';
+import {
+  saveAttachment,
+  deleteAttachment,
+  saveAttachmentChunks,
+  getD1AttachmentInfo,
+  getAttachmentChunk,
+  deleteAttachmentChunks,
+  updateAttachmentStorage,
+  getD1Attachments,
+  getPendingAttachmentDeletions,
+  removePendingAttachmentDeletions,
+  ATTACHMENT_CHUNK_BYTES
+} from './database';
+import { arrayBufferToBase64, base64ToBytes, generateId } from './utils';
+
+// 每次定时任务最多迁移和删除的附件数量
+const MIGRATION_BATCH_SIZE = 20;
+const DELETION_BATCH_SIZE = 100;
+
+// 附件存储后端
+export interface AttachmentStorage {
+  type: AttachmentStorageType;
+  put(attachmentId: string, content: ArrayBuffer, mimeType: string): Promise<void>;
+  // 以流的形式读取附件内容，可指定字节范围
+  get(attachmentId: string, range?: ByteRange): Promise<ReadableStream<Uint8Array> | null>;
+  delete(attachmentIds: string[]): Promise<void>;
+}
+
+// 保存附件的参数（附件ID和存储后端由存储层决定）
+export type StoreAttachmentParams = Omit<SaveAttachmentParams, 'id' | 'storage'> & {
+  content: ArrayBuffer;
+};
+
+/**
+ * 创建 R2 存储后端，按附件ID保存原始字节
+ * @param bucket R2 存储桶
+ * @returns 存储后端
+ */
+export function createR2Storage(bucket: R2Bucket): AttachmentStorage {
+  return {
+    type: 'r2',
+    
+    async put(attachmentId, content, mimeType) {
+      await bucket.put(attachmentId, content, {
+        httpMetadata: { contentType: mimeType },
+      });
+    },
+    
+    async get(attachmentId, range) {
+      const object = await bucket.get(attachmentId, range ? { range } : undefined);
+      return object ? object.body : null;
+    },
+    
+    async delete(attachmentIds) {
+      if (attachmentIds.length > 0) {
+        await bucket.delete(attachmentIds);
+      }
+    },
+  };
+}
+
+/**
+ * 创建 D1 存储后端，将 Base64 内容分块保存在 attachment_chunks 表中（兼容旧数据）
+ * 读取时逐块查询并解码，不会一次性加载整个附件
+ * @param env 环境变量
+ * @returns 存储后端
+ */
+export function createD1Storage(env: Env): AttachmentStorage {
+  return {
+    type: 'd1',
+    
+    async put(attachmentId, content) {
+      await saveAttachmentChunks(env.DB, attachmentId, arrayBufferToBase64(content));
+    },
+    
+    async get(attachmentId, range) {
+      const info = await getD1AttachmentInfo(env.DB, attachmentId);
+      if (!info) return null;
+      
+      const start = range ? range.offset : 0;
+      const end = range ? range.offset + range.length : Infinity;
+      
+      // 旧版本的小型附件直接保存在附件表中
+      if (!info.isLarge) {
+        const bytes = base64ToBytes(info.content).subarray(start, end);
+        return new ReadableStream<Uint8Array>({
+          start(controller) {
+            controller.enqueue(bytes);
+            controller.close();
+          },
+        });
+      }
+      
+      // 从范围起点所在的分块开始，按需逐块读取
+      let chunkIndex = Math.floor(start / ATTACHMENT_CHUNK_BYTES);
+      return new ReadableStream<Uint8Array>({
+        async pull(controller) {
+          const chunkStart = chunkIndex * ATTACHMENT_CHUNK_BYTES;
+          if (chunkIndex >= info.chunksCount || chunkStart >= end) {
+            controller.close();
+            return;
+          }
+          
+          const content = await getAttachmentChunk(env.DB, attachmentId, chunkIndex);
+          if (content === null) {
+            controller.error(new Error(`附件 ${attachmentId} 的分块 ${chunkIndex} 不存在`));
+            return;
+          }
+          
+          controller.enqueue(base64ToBytes(content).subarray(Math.max(start - chunkStart, 0), end - chunkStart));
+          chunkIndex++;
+        },
+      });
+    },
+    
+    async delete(attachmentIds) {
+      for (const attachmentId of attachmentIds) {
+        await deleteAttachmentChunks(env.DB, attachmentId);
+      }
+    },
+  };
+}
+
+/**
+ * 获取保存新附件使用的存储后端：绑定了 R2 时使用 R2，否则使用 D1
+ * @param env 环境变量
+ * @returns 存储后端
+ */
+export function getAttachmentStorage(env: Env): AttachmentStorage {
+  return env.ATTACHMENTS ? createR2Storage(env.ATTACHMENTS) : createD1Storage(env);
+}
+
+/**
+ * 获取指定类型的存储后端
+ * @param env 环境变量
+ * @param type 存储后端类型
+ * @returns 存储后端
+ */
+function getStorageByType(env: Env, type: AttachmentStorageType): AttachmentStorage {
+  if (type === 'r2') {
+    if (!env.ATTACHMENTS) {
+      throw new Error('附件保存在 R2 中，但未绑定 ATTACHMENTS 存储桶');
+    }
+    return createR2Storage(env.ATTACHMENTS);
+  }
+  
+  return createD1Storage(env);
+}
+
+/**
+ * 保存附件：先写入附件记录，再将内容写入存储后端，写入失败时删除记录
+ * @param env 环境变量
+ * @param params 参数
+ * @returns 保存的附件
+ */
+export async function storeAttachment(env: Env, params: StoreAttachmentParams): Promise<Attachment> {
+  const storage = getAttachmentStorage(env);
+  const { content, ...metadata } = params;
+  
+  const attachment = await saveAttachment(env.DB, {
+    ...metadata,
+    id: generateId(),
+    storage: storage.type,
+  });
+  
+  try {
+    await storage.put(attachment.id, content, attachment.mimeType);
+  } catch (error) {
+    await deleteAttachment(env.DB, attachment.id);
+    throw error;
+  }
+  
+  return attachment;
+}
+
+/**
+ * 以流的形式读取附件内容
+ * @param env 环境变量
+ * @param attachment 附件
+ * @param range 字节范围，不传时读取全部内容
+ * @returns 附件内容，不存在时返回 null
+ */
+export async function readAttachment(env: Env, attachment: Attachment, range?: ByteRange): Promise<ReadableStream<Uint8Array> | null> {
+  return getStorageByType(env, attachment.storage).get(attachment.id, range);
+}
+
+/**
+ * 删除已删除附件记录对应的存储对象
+ * @param env 环境变量
+ * @returns 删除的对象数量
+ */
+export async function deletePendingAttachmentObjects(env: Env): Promise<number> {
+  const pending = await getPendingAttachmentDeletions(env.DB, DELETION_BATCH_SIZE);
+  const deleted: string[] = [];
+  
+  for (const type of new Set(pending.map(item => item.storage))) {
+    const ids = pending.filter(item => item.storage === type).map(item => item.attachmentId);
+    try {
+      await getStorageByType(env, type).delete(ids);
+      deleted.push(...ids);
+    } catch (error) {
+      console.error(`删除 ${type} 中的附件对象失败:`, error);
+    }
+  }
+  
+  await removePendingAttachmentDeletions(env.DB, deleted);
+  return deleted.length;
+}
+
+/**
+ * 将仍保存在 D1 中的附件迁移到 R2，未绑定 R2 时不做任何操作
+ * @param env 环境变量
+ * @returns 迁移的附件数量
+ */
+export async function migrateAttachmentsToR2(env: Env): Promise<number> {
+  if (!env.ATTACHMENTS) return 0;
+  
+  const d1 = createD1Storage(env);
+  const r2 = createR2Storage(env.ATTACHMENTS);
+  let migrated = 0;
+  
+  for (const attachment of await getD1Attachments(env.DB, MIGRATION_BATCH_SIZE)) {
+    try {
+      const stream = await d1.get(attachment.id);
+      if (stream === null) continue;
+      
+      await r2.put(attachment.id, await new Response(stream).arrayBuffer(), attachment.mimeType);
+      await updateAttachmentStorage(env.DB, attachment.id, 'r2');
+      await d1.delete([attachment.id]);
+      migrated++;
+    } catch (error) {
+      console.error(`迁移附件 ${attachment.id} 失败:`, error);
+    }
+  }
+  
+  return migrated;
+}
@@ -0,0 +1,89 @@
+import { VerificationInfo } from './types';
+import { htmlToText } from './utils';
+
+// 验证码附近常见的关键词（英文、中文、日文）
+const CODE_KEYWORDS = /(\b(?:verification code|security code|login code|one[- ]time (?:code|password|passcode)|passcode|otp|pin|code)\b|验证码|校验码|动态码|确认码|驗證碼|認証コード|確認コード|ワンタイムパスワード|コード)/gi;
+
+// 验证码候选：4-8位数字，或包含数字的4-8位大写字母数字组合
+const CODE_CANDIDATE = /\b(?:\d{4,8}|(?=[A-Z0-9]*\d)(?=[A-Z0-9]*[A-Z])[A-Z0-9]{4,8})\b/g;
+
+// 关键词后查找验证码的范围（字符数）
+const CODE_SEARCH_WINDOW = 80;
+
+// 验证或重置链接中常见的关键词
+const LINK_KEYWORDS = /(verif|confirm|activat|reset|password|magic|login|log-in|sign-?in|auth|token|validate|验证|激活|确认|重置|認証|確認|有効化)/i;
+
+// 最多保存的链接数量
+const MAX_LINKS = 5;
+
+/**
+ * 从邮件中提取验证码和验证/重置链接
+ * @param subject 邮件主题
+ * @param text 纯文本内容
+ * @param html HTML内容
+ * @returns 提取结果
+ */
+export function extractVerificationInfo(subject: string, text: string, html: string): VerificationInfo {
+  const body = text || htmlToText(html);
+  
+  return {
+    code: findCode(subject) || findCode(body),
+    links: findLinks(text, html),
+  };
+}
+
+/**
+ * 查找关键词之后最近的验证码
+ * @param content 文本内容
+ * @returns 验证码，未找到时返回 null
+ */
+function findCode(content: string): string | null {
+  if (!content) return null;
+  
+  for (const keyword of content.matchAll(CODE_KEYWORDS)) {
+    const start = (keyword.index || 0) + keyword[0].length;
+    const window = content.substring(start, start + CODE_SEARCH_WINDOW);
+    
+    for (const candidate of window.matchAll(CODE_CANDIDATE)) {
+      // 跳过看起来像年份的数字
+      if (/^(19|20)\d{2}$/.test(candidate[0])) continue;
+      return candidate[0];
+    }
+  }
+  
+  return null;
+}
+
+/**
+ * 查找验证、确认或重置密码的链接
+ * @param text 纯文本内容
+ * @param html HTML内容
+ * @returns 去重后的链接列表
+ */
+function findLinks(text: string, html: string): string[] {
+  const links: string[] = [];
+  const addLink = (url: string) => {
+    const normalized = url.replace(/&amp;/g, '&').trim();
+    if (/^https?:\/\//i.test(normalized) && !links.includes(normalized) && links.length < MAX_LINKS) {
+      links.push(normalized);
+    }
+  };
+  
+  // HTML 链接：地址或链接文字包含关键词
+  for (const match of (html || '').matchAll(/<a\b[^>]*href\s*=\s*["']([^"']+)["'][^>]*>([\s\S]*?)<\/a>/gi)) {
+    if (LINK_KEYWORDS.test(match[1]) || LINK_KEYWORDS.test(htmlToText(match[2]))) {
+      addLink(match[1]);
+    }
+  }
+  
+  // 纯文本中的链接：地址本身或所在行包含关键词
+  for (const line of (text || '').split('\n')) {
+    for (const match of line.matchAll(/https?:\/\/[^\s<>"')\]]+/gi)) {
+      if (LINK_KEYWORDS.test(match[0]) || LINK_KEYWORDS.test(line.replace(match[0], ''))) {
+        addLink(match[0]);
+      }
+    }
+  }
+  
+  return links;
+}
@@ -0,0 +1,213 @@
+import { AddressStyle, Env } from './types';
+import { parseAddressStyle } from './utils';
+
+/**
+ * 获取配置的收件域名列表
+ * @param env 环境变量
+ * @returns 域名列表（小写），第一个为默认域名
+ */
+export function getEmailDomains(env: Env): string[] {
+  return (env.EMAIL_DOMAINS || '')
+    .split(',')
+    .map(domain => domain.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * 解析布尔型环境变量
+ * @param value 环境变量值
+ * @param fallback 未配置或无效时的默认值
+ * @returns 布尔值
+ */
+function parseBoolean(value: string | undefined, fallback: boolean): boolean {
+  const normalized = (value || '').trim().toLowerCase();
+  if (normalized === 'true' || normalized === '1') return true;
+  if (normalized === 'false' || normalized === '0') return false;
+  return fallback;
+}
+
+/**
+ * 解析数值型环境变量
+ * @param value 环境变量值
+ * @param fallback 未配置或无效时的默认值
+ * @returns 数值
+ */
+function parseNumber(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value !== undefined && value !== '' && Number.isFinite(parsed) ? parsed : fallback;
+}
+
+// 邮箱有效期配置（分钟）
+export interface MailboxLifetimeConfig {
+  minMinutes: number;
+  maxMinutes: number;
+  defaultMinutes: number;
+}
+
+/**
+ * 获取邮箱有效期配置
+ * @param env 环境变量
+ * @returns 最短、最长和默认有效期（分钟）
+ */
+export function getMailboxLifetimeConfig(env: Env): MailboxLifetimeConfig {
+  const minMinutes = Math.max(1, parseNumber(env.MAILBOX_MIN_LIFETIME_MINUTES, 10));
+  const maxMinutes = Math.max(minMinutes, parseNumber(env.MAILBOX_MAX_LIFETIME_MINUTES, 7 * 24 * 60));
+  const defaultMinutes = Math.min(maxMinutes, Math.max(minMinutes, parseNumber(env.MAILBOX_DEFAULT_LIFETIME_MINUTES, 24 * 60)));
+  
+  return { minMinutes, maxMinutes, defaultMinutes };
+}
+
+// random 和 pronounceable 方式的地址长度范围
+export const ADDRESS_LENGTH_RANGE = { min: 6, max: 32 };
+
+// 随机邮箱地址的默认生成配置
+export interface AddressGeneratorConfig {
+  style: AddressStyle;
+  length: number;
+}
+
+/**
+ * 获取随机邮箱地址的默认生成配置
+ * @param env 环境变量
+ * @returns 默认生成方式和长度
+ */
+export function getAddressGeneratorConfig(env: Env): AddressGeneratorConfig {
+  const style = parseAddressStyle(env.ADDRESS_STYLE);
+  const length = Math.round(parseNumber(env.ADDRESS_LENGTH, 10));
+  
+  return {
+    // prefix 方式需要用户提供前缀，不能作为默认方式
+    style: style && style !== 'prefix' ? style : 'random',
+    length: Math.min(ADDRESS_LENGTH_RANGE.max, Math.max(ADDRESS_LENGTH_RANGE.min, length)),
+  };
+}
+
+// 支持的子地址分隔符
+const SUBADDRESS_SEPARATORS = ['+', '-'];
+
+/**
+ * 获取子地址分隔符（例如 qa+signup@ 中的 +）
+ * @param env 环境变量
+ * @returns 分隔符，未启用时返回 null
+ */
+export function getSubaddressSeparator(env: Env): string | null {
+  const separator = env.SUBADDRESS_SEPARATOR === undefined ? '+' : env.SUBADDRESS_SEPARATOR.trim();
+  return SUBADDRESS_SEPARATORS.includes(separator) ? separator : null;
+}
+
+/**
+ * 获取用于签名图片代理地址等内容的密钥
+ * @param env 环境变量
+ * @returns 密钥，未配置时返回 null
+ */
+export function getSigningSecret(env: Env): string | null {
+  return env.SIGNING_SECRET ? env.SIGNING_SECRET : null;
+}
+
+// 邮箱超出配额时的处理方式：拒收新邮件，或删除最早的邮件腾出空间
+export type QuotaPolicy = 'reject' | 'evict';
+
+// 邮件大小和邮箱配额配置（0 表示不限制）
+export interface QuotaConfig {
+  maxMessageBytes: number;
+  maxAttachmentBytes: number;
+  maxEmails: number;
+  maxBytes: number;
+  policy: QuotaPolicy;
+}
+
+/**
+ * 获取邮件大小和邮箱配额配置
+ * @param env 环境变量
+ * @returns 配额配置
+ */
+export function getQuotaConfig(env: Env): QuotaConfig {
+  return {
+    maxMessageBytes: Math.max(0, parseNumber(env.MAX_MESSAGE_SIZE_BYTES, 25 * 1024 * 1024)),
+    maxAttachmentBytes: Math.max(0, parseNumber(env.MAX_ATTACHMENT_SIZE_BYTES, 10 * 1024 * 1024)),
+    maxEmails: Math.max(0, parseNumber(env.MAILBOX_MAX_EMAILS, 500)),
+    maxBytes: Math.max(0, parseNumber(env.MAILBOX_MAX_BYTES, 100 * 1024 * 1024)),
+    policy: env.MAILBOX_QUOTA_POLICY?.trim().toLowerCase() === 'reject' ? 'reject' : 'evict',
+  };
+}
+
+// 邮箱屏蔽的发件人来信时的处理方式：静默丢弃或拒收
+export type BlockedSenderAction = 'drop' | 'reject';
+
+// 收件策略配置（邮件大小限制见配额配置）
+export interface AcceptancePolicyConfig {
+  rejectUnknownRecipients: boolean;
+  deniedSenderDomains: string[];
+  requireSenderAuth: boolean;
+  authServId: string; // 只信任该 authserv-id 添加的验证结果
+  blockedSenderAction: BlockedSenderAction;
+}
+
+/**
+ * 获取收件策略配置
+ * @param env 环境变量
+ * @returns 收件策略配置
+ */
+export function getAcceptancePolicyConfig(env: Env): AcceptancePolicyConfig {
+  return {
+    rejectUnknownRecipients: parseBoolean(env.REJECT_UNKNOWN_RECIPIENTS, true),
+    deniedSenderDomains: (env.SENDER_DOMAIN_DENYLIST || '')
+      .split(',')
+      .map(domain => domain.trim().toLowerCase().replace(/^@/, ''))
+      .filter(Boolean),
+    requireSenderAuth: parseBoolean(env.REQUIRE_SENDER_AUTH, false),
+    authServId: env.AUTHSERV_ID?.trim().toLowerCase() || 'mx.cloudflare.net',
+    blockedSenderAction: env.BLOCKED_SENDER_ACTION?.trim().toLowerCase() === 'reject' ? 'reject' : 'drop',
+  };
+}
+
+// 邮箱创建频率限制配置（0 表示不限制）
+export interface RateLimitConfig {
+  windowSeconds: number;
+  maxPerIp: number;
+  maxPerSubnet: number; // 仅对 IPv6 地址按 /64 网段统计
+  maxActivePerIp: number;
+}
+
+/**
+ * 获取邮箱创建频率限制配置
+ * @param env 环境变量
+ * @returns 频率限制配置
+ */
+export function getRateLimitConfig(env: Env): RateLimitConfig {
+  return {
+    windowSeconds: Math.max(1, parseNumber(env.MAILBOX_RATE_LIMIT_WINDOW_SECONDS, 60 * 60)),
+    maxPerIp: Math.max(0, parseNumber(env.MAILBOX_RATE_LIMIT_PER_IP, 10)),
+    maxPerSubnet: Math.max(0, parseNumber(env.MAILBOX_RATE_LIMIT_PER_SUBNET, 30)),
+    maxActivePerIp: Math.max(0, parseNumber(env.MAX_ACTIVE_MAILBOXES_PER_IP, 20)),
+  };
+}
+
+// 创建邮箱的工作量证明配置
+export interface ProofOfWorkConfig {
+  difficulty: number; // 哈希前导零比特数，0 表示关闭
+  threshold: number; // 窗口内创建多少个邮箱后开始要求，0 表示始终要求
+  ttlSeconds: number;
+}
+
+/**
+ * 获取工作量证明配置
+ * @param env 环境变量
+ * @returns 工作量证明配置
+ */
+export function getProofOfWorkConfig(env: Env): ProofOfWorkConfig {
+  return {
+    difficulty: Math.min(32, Math.max(0, Math.floor(parseNumber(env.POW_DIFFICULTY, 18)))),
+    threshold: Math.max(0, parseNumber(env.POW_THRESHOLD, 3)),
+    ttlSeconds: Math.max(30, parseNumber(env.POW_CHALLENGE_TTL_SECONDS, 5 * 60)),
+  };
+}
+
+/**
+ * 获取管理员令牌
+ * @param env 环境变量
+ * @returns 管理员令牌，未配置时返回 null
+ */
+export function getAdminToken(env: Env): string | null {
+  return env.ADMIN_TOKEN ? env.ADMIN_TOKEN : null;
+}
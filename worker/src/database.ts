@@ -5,28 +5,78 @@ import {
   Email, 
   SaveEmailParams, 
   EmailListItem,
+  EmailListOptions,
+  EmailListPage,
+  EmailSearchResult,
+  EmailAddress,
+  MailboxPattern,
+  MailboxMatch,
+  SearchSnippetSegment,
   Attachment,
   AttachmentListItem,
   SaveAttachmentParams,
-  AttachmentChunk
+  AttachmentChunk,
+  Webhook,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  PendingWebhookDelivery,
+  LatestVerification,
+  PrivacyReport,
+  AttachmentDisposition,
+  AttachmentStorageType,
+  MailboxRetention,
+  RetentionPolicy,
+  RejectedMail,
+  RejectionRule,
+  SenderRule,
+  SenderRuleAction
 } from './types';
 import { 
   generateId, 
   getCurrentTimestamp, 
-  calculateExpiryTimestamp 
+  calculateExpiryTimestamp,
+  encodeCursor,
+  htmlToText,
+  buildFtsQuery,
+  normalizeContentId
 } from './utils';
 
 // 附件分块大小（字节）
 const CHUNK_SIZE = 500000; // 约500KB
 
+// 每个附件分块解码后的字节数（CHUNK_SIZE 为 4 的倍数，每块可单独解码）
+export const ATTACHMENT_CHUNK_BYTES = CHUNK_SIZE / 4 * 3;
+
+// 邮件列表默认与最大分页大小
+export const DEFAULT_EMAIL_PAGE_SIZE = 50;
+export const MAX_EMAIL_PAGE_SIZE = 100;
+
+// 邮件默认保留到邮箱过期
+const DEFAULT_RETENTION: MailboxRetention = { policy: 'expiry', value: null };
+
+// 每次定时任务按保留策略最多删除的邮件数量
+const RETENTION_BATCH_SIZE = 200;
+
+/**
+ * 生成已阅读的“阅后即焚”邮件的查询条件，定时清理和查询时的排除使用同一条件
+ * 这些邮件由定时任务删除，在此之前不再出现在列表、搜索、详情和原始邮件中（附件仍可读取，以便已打开的邮件正常显示）
+ * @param email 邮件表别名
+ * @param mailbox 已连接的邮箱表别名
+ * @returns SQL 条件
+ */
+function isBurned(email: string, mailbox: string): string {
+  return `(${mailbox}.retention_policy = 'burn' AND ${email}.is_read = 1)`;
+}
+
 /**
  * 初始化数据库
  * @param db 数据库实例
+ * @param defaultDomain 默认域名，用于迁移旧版本只保存用户名的邮箱
  */
-export async function initializeDatabase(db: D1Database): Promise<void> {
+export async function initializeDatabase(db: D1Database, defaultDomain?: string): Promise<void> {
   try {
     // 创建邮箱表
-    await db.exec(`CREATE TABLE IF NOT EXISTS mailboxes (id TEXT PRIMARY KEY, address TEXT UNIQUE NOT NULL, created_at INTEGER NOT NULL, expires_at INTEGER NOT NULL, ip_address TEXT, last_accessed INTEGER NOT NULL);`);
+    await db.exec(`CREATE TABLE IF NOT EXISTS mailboxes (id TEXT PRIMARY KEY, address TEXT UNIQUE NOT NULL, created_at INTEGER NOT NULL, expires_at INTEGER NOT NULL, ip_address TEXT, last_accessed INTEGER NOT NULL, token_hash TEXT, domain TEXT);`);
     
     // 创建邮件表
     await db.exec(`CREATE TABLE IF NOT EXISTS emails (id TEXT PRIMARY KEY, mailbox_id TEXT NOT NULL, from_address TEXT NOT NULL, from_name TEXT, to_address TEXT NOT NULL, subject TEXT, text_content TEXT, html_content TEXT, received_at INTEGER NOT NULL, has_attachments BOOLEAN DEFAULT FALSE, is_read BOOLEAN DEFAULT FALSE, FOREIGN KEY (mailbox_id) REFERENCES mailboxes(id) ON DELETE CASCADE);`);
@@ -37,14 +87,88 @@ export async function initializeDatabase(db: D1Database): Promise<void> {
     // 创建附件块表
     await db.exec(`CREATE TABLE IF NOT EXISTS attachment_chunks (id TEXT PRIMARY KEY, attachment_id TEXT NOT NULL, chunk_index INTEGER NOT NULL, content TEXT NOT NULL, FOREIGN KEY (attachment_id) REFERENCES attachments(id) ON DELETE CASCADE);`);
     
+    // 创建待删除的附件对象表（附件保存在对象存储时，删除记录后由定时任务删除对象）
+    await db.exec(`CREATE TABLE IF NOT EXISTS attachment_deletions (attachment_id TEXT PRIMARY KEY, storage TEXT NOT NULL, created_at INTEGER NOT NULL);`);
+    
+    // 创建邮箱通配规则表
+    await db.exec(`CREATE TABLE IF NOT EXISTS mailbox_patterns (id TEXT PRIMARY KEY, mailbox_id TEXT NOT NULL, domain TEXT NOT NULL, pattern TEXT NOT NULL, created_at INTEGER NOT NULL, FOREIGN KEY (mailbox_id) REFERENCES mailboxes(id) ON DELETE CASCADE);`);
+    
+    // 创建发件人规则表
+    await db.exec(`CREATE TABLE IF NOT EXISTS sender_rules (id TEXT PRIMARY KEY, mailbox_id TEXT NOT NULL, action TEXT NOT NULL, pattern TEXT NOT NULL, created_at INTEGER NOT NULL, UNIQUE (mailbox_id, pattern), FOREIGN KEY (mailbox_id) REFERENCES mailboxes(id) ON DELETE CASCADE);`);
+    
+    // 创建 Webhook 表
+    await db.exec(`CREATE TABLE IF NOT EXISTS webhooks (id TEXT PRIMARY KEY, mailbox_id TEXT NOT NULL, url TEXT NOT NULL, secret TEXT NOT NULL, created_at INTEGER NOT NULL, FOREIGN KEY (mailbox_id) REFERENCES mailboxes(id) ON DELETE CASCADE);`);
+    
+    // 创建 Webhook 投递记录表
+    await db.exec(`CREATE TABLE IF NOT EXISTS webhook_deliveries (id TEXT PRIMARY KEY, webhook_id TEXT NOT NULL, email_id TEXT NOT NULL, payload TEXT NOT NULL, status TEXT NOT NULL, attempts INTEGER DEFAULT 0, next_attempt_at INTEGER, last_status_code INTEGER, last_error TEXT, created_at INTEGER NOT NULL, updated_at INTEGER NOT NULL, FOREIGN KEY (webhook_id) REFERENCES webhooks(id) ON DELETE CASCADE);`);
+    
+    // 创建拒收记录表
+    await db.exec(`CREATE TABLE IF NOT EXISTS rejected_mails (id TEXT PRIMARY KEY, rule TEXT NOT NULL, reason TEXT NOT NULL, from_address TEXT, to_address TEXT, size INTEGER DEFAULT 0, rejected_at INTEGER NOT NULL);`);
+    
+    // 创建频率限制事件表（滑动窗口计数）
+    await db.exec(`CREATE TABLE IF NOT EXISTS rate_limit_events (id INTEGER PRIMARY KEY AUTOINCREMENT, bucket TEXT NOT NULL, created_at INTEGER NOT NULL);`);
+    
+    // 创建已使用的工作量证明挑战表，防止重复使用
+    await db.exec(`CREATE TABLE IF NOT EXISTS spent_challenges (nonce TEXT PRIMARY KEY, expires_at INTEGER NOT NULL);`);
+    
+    // 创建原始邮件块表
+    await db.exec(`CREATE TABLE IF NOT EXISTS raw_message_chunks (id TEXT PRIMARY KEY, email_id TEXT NOT NULL, chunk_index INTEGER NOT NULL, content TEXT NOT NULL, FOREIGN KEY (email_id) REFERENCES emails(id) ON DELETE CASCADE);`);
+    
+    // 创建全文搜索虚拟表
+    await db.exec(`CREATE VIRTUAL TABLE IF NOT EXISTS emails_fts USING fts5(email_id UNINDEXED, mailbox_id UNINDEXED, subject, from_text, text_content, html_text);`);
+    
+    // 为旧版本创建的表补充新增字段
+    await ensureColumns(db, 'mailboxes', {
+      token_hash: 'TEXT',
+      domain: 'TEXT',
+      retention_policy: `TEXT DEFAULT 'expiry'`,
+      retention_value: 'INTEGER',
+    });
+    await ensureColumns(db, 'emails', {
+      raw_size: 'INTEGER DEFAULT 0',
+      to_list: 'TEXT',
+      cc_list: 'TEXT',
+      reply_to_list: 'TEXT',
+      tag: 'TEXT',
+      verification_code: 'TEXT',
+      verification_links: 'TEXT',
+      privacy_report: 'TEXT',
+      read_at: 'INTEGER',
+    });
+    await ensureColumns(db, 'attachments', {
+      content_id: 'TEXT',
+      disposition: 'TEXT',
+      related: 'BOOLEAN DEFAULT FALSE',
+      storage: `TEXT DEFAULT 'd1'`,
+    });
+    
+    // 删除保存在对象存储中的附件时（包括级联删除）记录待删除的对象
+    await db.prepare(`CREATE TRIGGER IF NOT EXISTS trg_attachments_object_delete AFTER DELETE ON attachments WHEN OLD.storage != 'd1' BEGIN INSERT OR IGNORE INTO attachment_deletions (attachment_id, storage, created_at) VALUES (OLD.id, OLD.storage, CAST(strftime('%s', 'now') AS INTEGER)); END;`).run();
+    
+    // 旧版本的邮箱地址只保存了用户名部分，补全为默认域名下的完整地址
+    if (defaultDomain) {
+      await db.prepare(`UPDATE mailboxes SET address = address || '@' || ?, domain = ? WHERE address NOT LIKE '%@%'`).bind(defaultDomain, defaultDomain).run();
+    }
+    
     // 创建索引
     await db.exec(`CREATE INDEX IF NOT EXISTS idx_mailboxes_address ON mailboxes(address);`);
     await db.exec(`CREATE INDEX IF NOT EXISTS idx_mailboxes_expires_at ON mailboxes(expires_at);`);
     await db.exec(`CREATE INDEX IF NOT EXISTS idx_emails_mailbox_id ON emails(mailbox_id);`);
     await db.exec(`CREATE INDEX IF NOT EXISTS idx_emails_received_at ON emails(received_at);`);
+    await db.exec(`CREATE INDEX IF NOT EXISTS idx_emails_mailbox_received ON emails(mailbox_id, received_at, id);`);
+    await db.exec(`CREATE INDEX IF NOT EXISTS idx_mailbox_patterns_domain ON mailbox_patterns(domain);`);
+    await db.exec(`CREATE INDEX IF NOT EXISTS idx_mailbox_patterns_mailbox_id ON mailbox_patterns(mailbox_id);`);
+    await db.exec(`CREATE INDEX IF NOT EXISTS idx_webhooks_mailbox_id ON webhooks(mailbox_id);`);
+    await db.exec(`CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook_id ON webhook_deliveries(webhook_id, created_at);`);
+    await db.exec(`CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(status, next_attempt_at);`);
+    await db.exec(`CREATE INDEX IF NOT EXISTS idx_rejected_mails_rejected_at ON rejected_mails(rejected_at);`);
+    await db.exec(`CREATE INDEX IF NOT EXISTS idx_rate_limit_events_bucket ON rate_limit_events(bucket, created_at);`);
+    await db.exec(`CREATE INDEX IF NOT EXISTS idx_spent_challenges_expires_at ON spent_challenges(expires_at);`);
     await db.exec(`CREATE INDEX IF NOT EXISTS idx_attachments_email_id ON attachments(email_id);`);
+    await db.exec(`CREATE INDEX IF NOT EXISTS idx_attachments_content_id ON attachments(email_id, content_id);`);
     await db.exec(`CREATE INDEX IF NOT EXISTS idx_attachment_chunks_attachment_id ON attachment_chunks(attachment_id);`);
     await db.exec(`CREATE INDEX IF NOT EXISTS idx_attachment_chunks_chunk_index ON attachment_chunks(chunk_index);`);
+    await db.exec(`CREATE INDEX IF NOT EXISTS idx_raw_message_chunks_email_id ON raw_message_chunks(email_id, chunk_index);`);
     
     console.log('数据库初始化成功');
   } catch (error) {
@@ -54,6 +178,23 @@ export async function initializeDatabase(db: D1Database): Promise<void> {
   }
 }
 
+/**
+ * 为已存在的表补充缺失的字段
+ * @param db 数据库实例
+ * @param table 表名
+ * @param columns 字段名与字段定义的映射
+ */
+async function ensureColumns(db: D1Database, table: string, columns: Record<string, string>): Promise<void> {
+  const info = await db.prepare(`PRAGMA table_info(${table})`).all();
+  const existing = new Set((info.results || []).map(row => row.name as string));
+  
+  for (const [name, definition] of Object.entries(columns)) {
+    if (!existing.has(name)) {
+      await db.exec(`ALTER TABLE ${table} ADD COLUMN ${name} ${definition};`);
+    }
+  }
+}
+
 /**
  * 创建邮箱
  * @param db 数据库实例
@@ -65,26 +206,39 @@ export async function createMailbox(db: D1Database, params: CreateMailboxParams)
   const mailbox: Mailbox = {
     id: generateId(),
     address: params.address,
+    domain: params.domain,
     createdAt: now,
-    expiresAt: calculateExpiryTimestamp(params.expiresInHours),
+    expiresAt: calculateExpiryTimestamp(params.expiresInMinutes),
     ipAddress: params.ipAddress,
     lastAccessed: now,
+    retention: params.retention || DEFAULT_RETENTION,
   };
   
-  await db.prepare(`INSERT INTO mailboxes (id, address, created_at, expires_at, ip_address, last_accessed) VALUES (?, ?, ?, ?, ?, ?)`).bind(mailbox.id, mailbox.address, mailbox.createdAt, mailbox.expiresAt, mailbox.ipAddress, mailbox.lastAccessed).run();
+  await db.prepare(`INSERT INTO mailboxes (id, address, domain, created_at, expires_at, ip_address, last_accessed, token_hash, retention_policy, retention_value) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`).bind(mailbox.id, mailbox.address, mailbox.domain, mailbox.createdAt, mailbox.expiresAt, mailbox.ipAddress, mailbox.lastAccessed, params.tokenHash, mailbox.retention.policy, mailbox.retention.value).run();
   
   return mailbox;
 }
 
+/**
+ * 检查地址是否已被占用（包括已过期但尚未清理的邮箱）
+ * @param db 数据库实例
+ * @param address 完整邮箱地址
+ * @returns 是否已被占用
+ */
+export async function isAddressTaken(db: D1Database, address: string): Promise<boolean> {
+  const result = await db.prepare(`SELECT 1 FROM mailboxes WHERE address = ?`).bind(address).first();
+  return !!result;
+}
+
 /**
  * 获取邮箱信息
  * @param db 数据库实例
- * @param address 邮箱地址
+ * @param address 完整邮箱地址
  * @returns 邮箱信息
  */
 export async function getMailbox(db: D1Database, address: string): Promise<Mailbox | null> {
   const now = getCurrentTimestamp();
-  const result = await db.prepare(`SELECT id, address, created_at, expires_at, ip_address, last_accessed FROM mailboxes WHERE address = ? AND expires_at > ?`).bind(address, now).first();
+  const result = await db.prepare(`SELECT id, address, domain, created_at, expires_at, ip_address, last_accessed, retention_policy, retention_value FROM mailboxes WHERE address = ? AND expires_at > ?`).bind(address, now).first();
   
   if (!result) return null;
   
@@ -94,11 +248,257 @@ export async function getMailbox(db: D1Database, address: string): Promise<Mailb
   return {
     id: result.id as string,
     address: result.address as string,
+    domain: result.domain as string,
     createdAt: result.created_at as number,
     expiresAt: result.expires_at as number,
     ipAddress: result.ip_address as string,
     lastAccessed: now,
+    retention: parseRetentionColumns(result),
+  };
+}
+
+/**
+ * 读取邮箱的邮件保留设置
+ * @param row 邮箱记录
+ * @returns 保留设置，旧数据默认保留到邮箱过期
+ */
+function parseRetentionColumns(row: Record<string, unknown>): MailboxRetention {
+  const policy = row.retention_policy as RetentionPolicy | null;
+  if (!policy) return DEFAULT_RETENTION;
+  
+  return {
+    policy,
+    value: (row.retention_value as number | null) ?? null,
+  };
+}
+
+/**
+ * 获取邮箱的发件人规则
+ * @param db 数据库实例
+ * @param mailboxId 邮箱ID
+ * @returns 发件人规则列表
+ */
+export async function getSenderRules(db: D1Database, mailboxId: string): Promise<SenderRule[]> {
+  const results = await db.prepare(`SELECT id, mailbox_id, action, pattern, created_at FROM sender_rules WHERE mailbox_id = ? ORDER BY created_at ASC`).bind(mailboxId).all();
+  
+  if (!results.results) return [];
+  
+  return results.results.map(result => ({
+    id: result.id as string,
+    mailboxId: result.mailbox_id as string,
+    action: result.action as SenderRuleAction,
+    pattern: result.pattern as string,
+    createdAt: result.created_at as number,
+  }));
+}
+
+/**
+ * 添加发件人规则，规则已存在时更新其类型
+ * @param db 数据库实例
+ * @param mailboxId 邮箱ID
+ * @param action 规则类型
+ * @param pattern 发件人规则
+ * @returns 保存后的规则
+ */
+export async function saveSenderRule(db: D1Database, mailboxId: string, action: SenderRuleAction, pattern: string): Promise<SenderRule> {
+  const result = await db.prepare(`INSERT INTO sender_rules (id, mailbox_id, action, pattern, created_at) VALUES (?, ?, ?, ?, ?) ON CONFLICT (mailbox_id, pattern) DO UPDATE SET action = excluded.action RETURNING id, created_at`).bind(generateId(), mailboxId, action, pattern, getCurrentTimestamp()).first();
+  
+  return {
+    id: result?.id as string,
+    mailboxId,
+    action,
+    pattern,
+    createdAt: result?.created_at as number,
+  };
+}
+
+/**
+ * 删除发件人规则
+ * @param db 数据库实例
+ * @param mailboxId 邮箱ID
+ * @param ruleId 规则ID
+ * @returns 是否删除成功
+ */
+export async function deleteSenderRule(db: D1Database, mailboxId: string, ruleId: string): Promise<boolean> {
+  const result = await db.prepare(`DELETE FROM sender_rules WHERE id = ? AND mailbox_id = ?`).bind(ruleId, mailboxId).run();
+  return (result.meta?.changes || 0) > 0;
+}
+
+/**
+ * 更新邮箱的邮件保留设置
+ * @param db 数据库实例
+ * @param mailboxId 邮箱ID
+ * @param retention 保留设置
+ */
+export async function updateMailboxRetention(db: D1Database, mailboxId: string, retention: MailboxRetention): Promise<void> {
+  await db.prepare(`UPDATE mailboxes SET retention_policy = ?, retention_value = ? WHERE id = ?`).bind(retention.policy, retention.value, mailboxId).run();
+}
+
+/**
+ * 检查地址是否属于已过期但尚未清理的邮箱
+ * @param db 数据库实例
+ * @param address 完整邮箱地址（小写）
+ * @returns 是否为已过期的邮箱
+ */
+export async function isExpiredMailbox(db: D1Database, address: string): Promise<boolean> {
+  const result = await db.prepare(`SELECT 1 FROM mailboxes WHERE address = ? AND expires_at <= ?`).bind(address, getCurrentTimestamp()).first();
+  return !!result;
+}
+
+/**
+ * 根据收件地址查找邮箱
+ * 依次尝试：完整地址精确匹配、去掉子地址标签后匹配（qa+signup@ → qa@）、通配规则匹配（build-* 匹配 build-42@）
+ * @param db 数据库实例
+ * @param address 收件地址（小写）
+ * @param separator 子地址分隔符，为 null 时不处理子地址
+ * @returns 匹配的邮箱和标签，未找到时返回 null
+ */
+export async function findMailboxForRecipient(db: D1Database, address: string, separator: string | null): Promise<MailboxMatch | null> {
+  const mailbox = await getMailbox(db, address);
+  if (mailbox) return { mailbox, tag: null };
+  
+  const atIndex = address.lastIndexOf('@');
+  if (atIndex <= 0) return null;
+  
+  const localPart = address.substring(0, atIndex);
+  const domain = address.substring(atIndex + 1);
+  
+  // 子地址：分隔符之前为邮箱用户名，之后为标签
+  if (separator) {
+    const separatorIndex = localPart.indexOf(separator);
+    if (separatorIndex > 0 && separatorIndex < localPart.length - 1) {
+      const baseMailbox = await getMailbox(db, `${localPart.substring(0, separatorIndex)}@${domain}`);
+      if (baseMailbox) {
+        return { mailbox: baseMailbox, tag: localPart.substring(separatorIndex + 1) };
+      }
+    }
+  }
+  
+  // 通配规则：规则越长越具体，优先匹配
+  const now = getCurrentTimestamp();
+  const result = await db.prepare(`SELECT m.address FROM mailbox_patterns p JOIN mailboxes m ON m.id = p.mailbox_id WHERE p.domain = ? AND m.expires_at > ? AND ? GLOB p.pattern ORDER BY length(p.pattern) DESC, p.created_at ASC LIMIT 1`).bind(domain, now, localPart).first();
+  
+  if (result) {
+    const patternMailbox = await getMailbox(db, result.address as string);
+    if (patternMailbox) {
+      return { mailbox: patternMailbox, tag: localPart };
+    }
+  }
+  
+  return null;
+}
+
+/**
+ * 获取邮箱的通配规则列表
+ * @param db 数据库实例
+ * @param mailboxId 邮箱ID
+ * @returns 通配规则列表
+ */
+export async function getMailboxPatterns(db: D1Database, mailboxId: string): Promise<MailboxPattern[]> {
+  const results = await db.prepare(`SELECT id, mailbox_id, domain, pattern, created_at FROM mailbox_patterns WHERE mailbox_id = ? ORDER BY created_at ASC`).bind(mailboxId).all();
+  
+  if (!results.results) return [];
+  
+  return results.results.map(result => ({
+    id: result.id as string,
+    mailboxId: result.mailbox_id as string,
+    domain: result.domain as string,
+    pattern: result.pattern as string,
+    createdAt: result.created_at as number,
+  }));
+}
+
+/**
+ * 检查通配规则是否已被有效邮箱占用
+ * @param db 数据库实例
+ * @param domain 域名
+ * @param pattern 通配规则
+ * @returns 是否已被占用
+ */
+export async function isMailboxPatternTaken(db: D1Database, domain: string, pattern: string): Promise<boolean> {
+  const now = getCurrentTimestamp();
+  const result = await db.prepare(`SELECT 1 FROM mailbox_patterns p JOIN mailboxes m ON m.id = p.mailbox_id WHERE p.domain = ? AND p.pattern = ? AND m.expires_at > ?`).bind(domain, pattern, now).first();
+  
+  return !!result;
+}
+
+/**
+ * 为邮箱添加通配规则
+ * @param db 数据库实例
+ * @param mailbox 邮箱
+ * @param pattern 通配规则（用户名部分）
+ * @returns 添加的通配规则
+ */
+export async function addMailboxPattern(db: D1Database, mailbox: Mailbox, pattern: string): Promise<MailboxPattern> {
+  const mailboxPattern: MailboxPattern = {
+    id: generateId(),
+    mailboxId: mailbox.id,
+    domain: mailbox.domain,
+    pattern,
+    createdAt: getCurrentTimestamp(),
   };
+  
+  await db.prepare(`INSERT INTO mailbox_patterns (id, mailbox_id, domain, pattern, created_at) VALUES (?, ?, ?, ?, ?)`).bind(mailboxPattern.id, mailboxPattern.mailboxId, mailboxPattern.domain, mailboxPattern.pattern, mailboxPattern.createdAt).run();
+  
+  return mailboxPattern;
+}
+
+/**
+ * 删除邮箱的通配规则
+ * @param db 数据库实例
+ * @param mailboxId 邮箱ID
+ * @param patternId 通配规则ID
+ * @returns 是否删除成功
+ */
+export async function deleteMailboxPattern(db: D1Database, mailboxId: string, patternId: string): Promise<boolean> {
+  const result = await db.prepare(`DELETE FROM mailbox_patterns WHERE id = ? AND mailbox_id = ?`).bind(patternId, mailboxId).run();
+  return (result.meta?.changes || 0) > 0;
+}
+
+/**
+ * 更新邮箱过期时间
+ * @param db 数据库实例
+ * @param mailboxId 邮箱ID
+ * @param expiresAt 新的过期时间戳
+ */
+export async function updateMailboxExpiry(db: D1Database, mailboxId: string, expiresAt: number): Promise<void> {
+  await db.prepare(`UPDATE mailboxes SET expires_at = ? WHERE id = ?`).bind(expiresAt, mailboxId).run();
+}
+
+/**
+ * 获取邮箱访问令牌的哈希值
+ * @param db 数据库实例
+ * @param mailboxId 邮箱ID
+ * @returns 令牌哈希，旧邮箱没有令牌时返回 null
+ */
+export async function getMailboxTokenHash(db: D1Database, mailboxId: string): Promise<string | null> {
+  const result = await db.prepare(`SELECT token_hash FROM mailboxes WHERE id = ?`).bind(mailboxId).first();
+  
+  return (result?.token_hash as string) || null;
+}
+
+/**
+ * 获取邮件所属的邮箱ID（不会将邮件标记为已读）
+ * @param db 数据库实例
+ * @param emailId 邮件ID
+ * @returns 邮箱ID
+ */
+export async function getEmailMailboxId(db: D1Database, emailId: string): Promise<string | null> {
+  const result = await db.prepare(`SELECT mailbox_id FROM emails WHERE id = ?`).bind(emailId).first();
+  
+  return (result?.mailbox_id as string) || null;
+}
+
+/**
+ * 获取附件所属的邮箱ID
+ * @param db 数据库实例
+ * @param attachmentId 附件ID
+ * @returns 邮箱ID
+ */
+export async function getAttachmentMailboxId(db: D1Database, attachmentId: string): Promise<string | null> {
+  const result = await db.prepare(`SELECT e.mailbox_id FROM attachments a JOIN emails e ON e.id = a.email_id WHERE a.id = ?`).bind(attachmentId).first();
+  
+  return (result?.mailbox_id as string) || null;
 }
 
 /**
@@ -109,17 +509,19 @@ export async function getMailbox(db: D1Database, address: string): Promise<Mailb
  */
 export async function getMailboxes(db: D1Database, ipAddress: string): Promise<Mailbox[]> {
   const now = getCurrentTimestamp();
-  const results = await db.prepare(`SELECT id, address, created_at, expires_at, ip_address, last_accessed FROM mailboxes WHERE ip_address = ? AND expires_at > ? ORDER BY created_at DESC`).bind(ipAddress, now).all();
+  const results = await db.prepare(`SELECT id, address, domain, created_at, expires_at, ip_address, last_accessed, retention_policy, retention_value FROM mailboxes WHERE ip_address = ? AND expires_at > ? ORDER BY created_at DESC`).bind(ipAddress, now).all();
   
   if (!results.results) return [];
   
   return results.results.map(result => ({
     id: result.id as string,
     address: result.address as string,
+    domain: result.domain as string,
     createdAt: result.created_at as number,
     expiresAt: result.expires_at as number,
     ipAddress: result.ip_address as string,
     lastAccessed: result.last_accessed as number,
+    retention: parseRetentionColumns(result),
   }));
 }
 
@@ -129,6 +531,9 @@ export async function getMailboxes(db: D1Database, ipAddress: string): Promise<M
  * @param address 邮箱地址
  */
 export async function deleteMailbox(db: D1Database, address: string): Promise<void> {
+  // 删除邮箱中所有邮件的搜索索引
+  await db.prepare(`DELETE FROM emails_fts WHERE mailbox_id IN (SELECT id FROM mailboxes WHERE address = ?)`).bind(address).run();
+  
   await db.prepare(`DELETE FROM mailboxes WHERE address = ?`).bind(address).run();
 }
 
@@ -173,6 +578,23 @@ async function cleanupOrphanedAttachments(db: D1Database): Promise<number> {
   }
 }
 
+/**
+ * 清理孤立的原始邮件块（没有关联到任何邮件的块）
+ * @param db 数据库实例
+ */
+async function cleanupOrphanedRawMessages(db: D1Database): Promise<void> {
+  try {
+    const result = await db.prepare(`DELETE FROM raw_message_chunks WHERE NOT EXISTS (SELECT 1 FROM emails e WHERE e.id = raw_message_chunks.email_id)`).run();
+    
+    const deletedCount = result.meta?.changes || 0;
+    if (deletedCount > 0) {
+      console.log(`已清理 ${deletedCount} 个孤立的原始邮件块`);
+    }
+  } catch (error) {
+    console.error('清理孤立原始邮件块时出错:', error);
+  }
+}
+
 /**
  * 清理过期邮箱
  * @param db 数据库实例
@@ -207,72 +629,40 @@ export async function cleanupExpiredMailboxes(db: D1Database): Promise<number> {
     }
   }
   
+  // 删除过期邮箱邮件的搜索索引（虚拟表不支持级联删除）
+  await db.prepare(`DELETE FROM emails_fts WHERE mailbox_id IN (SELECT id FROM mailboxes WHERE expires_at <= ?)`).bind(now).run();
+  
   // 删除过期邮箱（会级联删除邮件和附件）
   const result = await db.prepare(`DELETE FROM mailboxes WHERE expires_at <= ?`).bind(now).run();
   
   // 清理可能存在的孤立附件
   await cleanupOrphanedAttachments(db);
+  await cleanupOrphanedRawMessages(db);
   
   return result.meta?.changes || 0;
 }
 
 /**
- * 清理过期邮件
+ * 按各邮箱的保留策略删除到期的邮件
+ * 阅读时间缺失的旧邮件按接收时间计算
  * @param db 数据库实例
  * @returns 删除的邮件数量
  */
-export async function cleanupExpiredMails(db: D1Database): Promise<number> {
+export async function cleanupMailsByRetention(db: D1Database): Promise<number> {
   const now = getCurrentTimestamp();
-  const oneDayAgo = now - 24 * 60 * 60; // 24小时前的时间戳（秒）
   
-  // 获取过期邮件的ID列表
-  const expiredEmails = await db.prepare(`SELECT id FROM emails WHERE received_at <= ?`).bind(oneDayAgo).all();
+  const dueEmails = await db.prepare(`SELECT e.id FROM emails e JOIN mailboxes m ON m.id = e.mailbox_id WHERE ${isBurned('e', 'm')} OR (m.retention_policy = 'after_read' AND e.is_read = 1 AND COALESCE(e.read_at, e.received_at) <= ? - m.retention_value * 60) OR (m.retention_policy = 'days' AND e.received_at <= ? - m.retention_value * 86400) LIMIT ?`).bind(now, now, RETENTION_BATCH_SIZE).all();
   
-  if (expiredEmails.results && expiredEmails.results.length > 0) {
-    const emailIds = expiredEmails.results.map(row => row.id as string);
-    console.log(`找到 ${emailIds.length} 封过期邮件，准备清理...`);
-    
-    // 清理每封邮件的附件
-    for (const emailId of emailIds) {
-      await cleanupAttachments(db, emailId);
-    }
+  const emailIds = dueEmails.results.map(row => row.id as string);
+  if (emailIds.length > 0) {
+    console.log(`找到 ${emailIds.length} 封超出保留期限的邮件，准备清理...`);
   }
   
-  // 删除过期邮件（会级联删除附件）
-  const result = await db.prepare(`DELETE FROM emails WHERE received_at <= ?`).bind(oneDayAgo).run();
-  
-  // 清理可能存在的孤立附件
-  await cleanupOrphanedAttachments(db);
-  
-  return result.meta?.changes || 0;
-}
-
-/**
- * 清理已被阅读的邮件
- * @param db 数据库实例
- * @returns 删除的邮件数量
- */
-export async function cleanupReadMails(db: D1Database): Promise<number> {
-  // 获取已读邮件的ID列表
-  const readEmails = await db.prepare(`SELECT id FROM emails WHERE is_read = 1`).all();
-  
-  if (readEmails.results && readEmails.results.length > 0) {
-    const emailIds = readEmails.results.map(row => row.id as string);
-    console.log(`找到 ${emailIds.length} 封已读邮件，准备清理...`);
-    
-    // 清理每封邮件的附件
-    for (const emailId of emailIds) {
-      await cleanupAttachments(db, emailId);
-    }
+  for (const emailId of emailIds) {
+    await deleteEmail(db, emailId);
   }
   
-  // 删除已读邮件（会级联删除附件）
-  const result = await db.prepare(`DELETE FROM emails WHERE is_read = 1`).run();
-  
-  // 清理可能存在的孤立附件
-  await cleanupOrphanedAttachments(db);
-  
-  return result.meta?.changes || 0;
+  return emailIds.length;
 }
 
 /**
@@ -331,11 +721,22 @@ export async function saveEmail(db: D1Database, params: SaveEmailParams): Promis
       receivedAt: now,
       hasAttachments: params.hasAttachments || false,
       isRead: false,
+      to: params.to || [],
+      cc: params.cc || [],
+      replyTo: params.replyTo || [],
+      tag: params.tag || null,
+      verificationCode: params.verificationCode || null,
+      verificationLinks: params.verificationLinks || [],
+      privacyReport: params.privacyReport || null,
+      rawSize: params.rawSize || 0,
     };
     
     console.log('准备插入邮件:', email.id);
     
-    await db.prepare(`INSERT INTO emails (id, mailbox_id, from_address, from_name, to_address, subject, text_content, html_content, received_at, has_attachments, is_read) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`).bind(email.id, email.mailboxId, email.fromAddress, email.fromName, email.toAddress, email.subject, email.textContent, email.htmlContent, email.receivedAt, email.hasAttachments ? 1 : 0, email.isRead ? 1 : 0).run();
+    await db.prepare(`INSERT INTO emails (id, mailbox_id, from_address, from_name, to_address, subject, text_content, html_content, received_at, has_attachments, is_read, to_list, cc_list, reply_to_list, tag, verification_code, verification_links, privacy_report, raw_size) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`).bind(email.id, email.mailboxId, email.fromAddress, email.fromName, email.toAddress, email.subject, email.textContent, email.htmlContent, email.receivedAt, email.hasAttachments ? 1 : 0, email.isRead ? 1 : 0, JSON.stringify(email.to), JSON.stringify(email.cc), JSON.stringify(email.replyTo), email.tag, email.verificationCode, JSON.stringify(email.verificationLinks), email.privacyReport ? JSON.stringify(email.privacyReport) : null, email.rawSize).run();
+    
+    // 写入全文搜索索引
+    await db.prepare(`INSERT INTO emails_fts (email_id, mailbox_id, subject, from_text, text_content, html_text) VALUES (?, ?, ?, ?, ?, ?)`).bind(email.id, email.mailboxId, email.subject, `${email.fromName} ${email.fromAddress}`.trim(), email.textContent || '', htmlToText(email.htmlContent || '')).run();
     
     console.log('邮件保存成功:', email.id);
     
@@ -347,76 +748,32 @@ export async function saveEmail(db: D1Database, params: SaveEmailParams): Promis
 }
 
 /**
- * 保存附件
+ * 保存附件记录，附件内容由存储后端单独保存
  * @param db 数据库实例
  * @param params 参数
  * @returns 保存的附件
  */
 export async function saveAttachment(db: D1Database, params: SaveAttachmentParams): Promise<Attachment> {
   try {
-    console.log('开始保存附件...');
-    
-    const now = getCurrentTimestamp();
-    const attachmentId = generateId();
+    const attachment: Attachment = {
+      id: params.id,
+      emailId: params.emailId,
+      filename: params.filename,
+      mimeType: params.mimeType,
+      size: params.size,
+      createdAt: getCurrentTimestamp(),
+      isLarge: false,
+      chunksCount: 0,
+      contentId: normalizeContentId(params.contentId),
+      disposition: params.disposition || null,
+      related: !!params.related,
+      storage: params.storage
+    };
     
-    // 检查附件大小，决定是否需要分块存储
-    const isLarge = params.content.length > CHUNK_SIZE;
-    console.log(`附件大小: ${params.content.length} 字节, 是否为大型附件: ${isLarge}`);
+    await db.prepare(`INSERT INTO attachments (id, email_id, filename, mime_type, content, size, created_at, is_large, chunks_count, content_id, disposition, related, storage) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`).bind(attachment.id, attachment.emailId, attachment.filename, attachment.mimeType, '', attachment.size, attachment.createdAt, 0, 0, attachment.contentId, attachment.disposition, attachment.related ? 1 : 0, attachment.storage).run();
     
-    if (isLarge) {
-      // 大型附件，需要分块存储
-      const contentLength = params.content.length;
-      const chunksCount = Math.ceil(contentLength / CHUNK_SIZE);
-      console.log(`将附件分为 ${chunksCount} 块存储`);
-      
-      // 创建附件记录，但不存储内容
-      const attachment: Attachment = {
-        id: attachmentId,
-        emailId: params.emailId,
-        filename: params.filename,
-        mimeType: params.mimeType,
-        content: '', // 大型附件不在主表存储内容
-        size: params.size,
-        createdAt: now,
-        isLarge: true,
-        chunksCount: chunksCount
-      };
-      
-      // 插入附件记录
-      await db.prepare(`INSERT INTO attachments (id, email_id, filename, mime_type, content, size, created_at, is_large, chunks_count) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`).bind(attachment.id, attachment.emailId, attachment.filename, attachment.mimeType, attachment.content, attachment.size, attachment.createdAt, attachment.isLarge ? 1 : 0, attachment.chunksCount).run();
-      
-      // 分块存储附件内容
-      for (let i = 0; i < chunksCount; i++) {
-        const start = i * CHUNK_SIZE;
-        const end = Math.min(start + CHUNK_SIZE, contentLength);
-        const chunkContent = params.content.substring(start, end);
-        const chunkId = generateId();
-        
-        await db.prepare(`INSERT INTO attachment_chunks (id, attachment_id, chunk_index, content) VALUES (?, ?, ?, ?)`).bind(chunkId, attachment.id, i, chunkContent).run();
-        console.log(`保存附件块 ${i+1}/${chunksCount}`);
-      }
-      
-      console.log('大型附件保存成功:', attachment.id);
-      return attachment;
-    } else {
-      // 小型附件，直接存储
-      const attachment: Attachment = {
-        id: attachmentId,
-        emailId: params.emailId,
-        filename: params.filename,
-        mimeType: params.mimeType,
-        content: params.content,
-        size: params.size,
-        createdAt: now,
-        isLarge: false,
-        chunksCount: 0
-      };
-      
-      await db.prepare(`INSERT INTO attachments (id, email_id, filename, mime_type, content, size, created_at, is_large, chunks_count) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`).bind(attachment.id, attachment.emailId, attachment.filename, attachment.mimeType, attachment.content, attachment.size, attachment.createdAt, attachment.isLarge ? 1 : 0, attachment.chunksCount).run();
-      
-      console.log('小型附件保存成功:', attachment.id);
-      return attachment;
-    }
+    console.log('附件记录保存成功:', attachment.id);
+    return attachment;
   } catch (error) {
     console.error('保存附件失败:', error);
     throw new Error(`保存附件失败: ${error instanceof Error ? error.message : String(error)}`);
@@ -424,69 +781,424 @@ export async function saveAttachment(db: D1Database, params: SaveAttachmentParam
 }
 
 /**
- * 获取邮件列表
+ * 删除附件记录
  * @param db 数据库实例
- * @param mailboxId 邮箱ID
- * @returns 邮件列表
+ * @param attachmentId 附件ID
+ */
+export async function deleteAttachment(db: D1Database, attachmentId: string): Promise<void> {
+  await db.prepare(`DELETE FROM attachment_chunks WHERE attachment_id = ?`).bind(attachmentId).run();
+  await db.prepare(`DELETE FROM attachments WHERE id = ?`).bind(attachmentId).run();
+}
+
+/**
+ * 将附件内容分块保存到 D1（未配置对象存储时使用）
+ * @param db 数据库实例
+ * @param attachmentId 附件ID
+ * @param content Base64编码的内容
  */
-export async function getEmails(db: D1Database, mailboxId: string): Promise<EmailListItem[]> {
-  const results = await db.prepare(`SELECT id, mailbox_id, from_address, from_name, to_address, subject, received_at, has_attachments, is_read FROM emails WHERE mailbox_id = ? ORDER BY received_at DESC`).bind(mailboxId).all();
+export async function saveAttachmentChunks(db: D1Database, attachmentId: string, content: string): Promise<void> {
+  const chunksCount = Math.ceil(content.length / CHUNK_SIZE);
   
-  if (!results.results) return [];
+  for (let i = 0; i < chunksCount; i++) {
+    const chunkContent = content.substring(i * CHUNK_SIZE, (i + 1) * CHUNK_SIZE);
+    await db.prepare(`INSERT INTO attachment_chunks (id, attachment_id, chunk_index, content) VALUES (?, ?, ?, ?)`).bind(generateId(), attachmentId, i, chunkContent).run();
+  }
   
-  return results.results.map(result => ({
-    id: result.id as string,
-    mailboxId: result.mailbox_id as string,
-    fromAddress: result.from_address as string,
-    fromName: result.from_name as string,
-    toAddress: result.to_address as string,
-    subject: result.subject as string,
-    receivedAt: result.received_at as number,
-    hasAttachments: !!result.has_attachments,
-    isRead: !!result.is_read,
-  }));
+  await db.prepare(`UPDATE attachments SET is_large = 1, chunks_count = ? WHERE id = ?`).bind(chunksCount, attachmentId).run();
 }
 
 /**
- * 获取邮件详情
+ * 获取保存在 D1 中的附件内容布局（兼容旧版本直接保存在附件表中的小型附件）
  * @param db 数据库实例
- * @param id 邮件ID
- * @returns 邮件详情
+ * @param attachmentId 附件ID
+ * @returns 小型附件的 Base64 内容或大型附件的分块数量，不存在时返回 null
  */
-export async function getEmail(db: D1Database, id: string): Promise<Email | null> {
-  const result = await db.prepare(`SELECT id, mailbox_id, from_address, from_name, to_address, subject, text_content, html_content, received_at, has_attachments, is_read FROM emails WHERE id = ?`).bind(id).first();
+export async function getD1AttachmentInfo(db: D1Database, attachmentId: string): Promise<{ content: string; isLarge: boolean; chunksCount: number } | null> {
+  const result = await db.prepare(`SELECT content, is_large, chunks_count FROM attachments WHERE id = ?`).bind(attachmentId).first();
   
   if (!result) return null;
   
-  // 标记为已读
-  await db.prepare(`UPDATE emails SET is_read = 1 WHERE id = ?`).bind(id).run();
-  
   return {
-    id: result.id as string,
-    mailboxId: result.mailbox_id as string,
-    fromAddress: result.from_address as string,
-    fromName: result.from_name as string,
-    toAddress: result.to_address as string,
-    subject: result.subject as string,
-    textContent: result.text_content as string,
-    htmlContent: result.html_content as string,
-    receivedAt: result.received_at as number,
-    hasAttachments: !!result.has_attachments,
-    isRead: true,
+    content: (result.content as string) || '',
+    isLarge: !!result.is_large,
+    chunksCount: (result.chunks_count as number) || 0,
   };
 }
 
 /**
- * 获取附件列表
+ * 获取大型附件的一个分块
  * @param db 数据库实例
- * @param emailId 邮件ID
- * @returns 附件列表
+ * @param attachmentId 附件ID
+ * @param chunkIndex 分块序号
+ * @returns 分块的 Base64 内容，不存在时返回 null
  */
-export async function getAttachments(db: D1Database, emailId: string): Promise<AttachmentListItem[]> {
-  const results = await db.prepare(`SELECT id, email_id, filename, mime_type, size, created_at, is_large, chunks_count FROM attachments WHERE email_id = ? ORDER BY created_at ASC`).bind(emailId).all();
-  
-  if (!results.results) return [];
-  
+export async function getAttachmentChunk(db: D1Database, attachmentId: string, chunkIndex: number): Promise<string | null> {
+  const chunk = await db.prepare(`SELECT content FROM attachment_chunks WHERE attachment_id = ? AND chunk_index = ?`).bind(attachmentId, chunkIndex).first();
+  return chunk ? chunk.content as string : null;
+}
+
+/**
+ * 删除保存在 D1 中的附件内容
+ * @param db 数据库实例
+ * @param attachmentId 附件ID
+ */
+export async function deleteAttachmentChunks(db: D1Database, attachmentId: string): Promise<void> {
+  await db.prepare(`DELETE FROM attachment_chunks WHERE attachment_id = ?`).bind(attachmentId).run();
+  await db.prepare(`UPDATE attachments SET content = '', is_large = 0, chunks_count = 0 WHERE id = ?`).bind(attachmentId).run();
+}
+
+/**
+ * 更新附件的存储后端（迁移到对象存储后调用）
+ * @param db 数据库实例
+ * @param attachmentId 附件ID
+ * @param storage 存储后端
+ */
+export async function updateAttachmentStorage(db: D1Database, attachmentId: string, storage: AttachmentStorageType): Promise<void> {
+  await db.prepare(`UPDATE attachments SET storage = ? WHERE id = ?`).bind(storage, attachmentId).run();
+}
+
+/**
+ * 获取仍保存在 D1 中的附件，用于迁移到对象存储
+ * @param db 数据库实例
+ * @param limit 最大数量
+ * @returns 附件列表
+ */
+export async function getD1Attachments(db: D1Database, limit: number): Promise<Attachment[]> {
+  const results = await db.prepare(`SELECT id FROM attachments WHERE storage = 'd1' ORDER BY created_at ASC LIMIT ?`).bind(limit).all();
+  
+  const attachments: Attachment[] = [];
+  for (const result of results.results || []) {
+    const attachment = await getAttachment(db, result.id as string);
+    if (attachment) attachments.push(attachment);
+  }
+  
+  return attachments;
+}
+
+/**
+ * 获取待删除的附件对象
+ * @param db 数据库实例
+ * @param limit 最大数量
+ * @returns 附件ID和存储后端
+ */
+export async function getPendingAttachmentDeletions(db: D1Database, limit: number): Promise<Array<{ attachmentId: string; storage: AttachmentStorageType }>> {
+  const results = await db.prepare(`SELECT attachment_id, storage FROM attachment_deletions ORDER BY created_at ASC LIMIT ?`).bind(limit).all();
+  
+  return (results.results || []).map(result => ({
+    attachmentId: result.attachment_id as string,
+    storage: result.storage as AttachmentStorageType,
+  }));
+}
+
+/**
+ * 移除已删除对象的待删除记录
+ * @param db 数据库实例
+ * @param attachmentIds 附件ID列表
+ */
+export async function removePendingAttachmentDeletions(db: D1Database, attachmentIds: string[]): Promise<void> {
+  if (attachmentIds.length === 0) return;
+  
+  await db.prepare(`DELETE FROM attachment_deletions WHERE attachment_id IN (${attachmentIds.map(() => '?').join(', ')})`).bind(...attachmentIds).run();
+}
+
+/**
+ * 保存原始邮件（Base64编码，按块存储）
+ * @param db 数据库实例
+ * @param emailId 邮件ID
+ * @param content Base64编码的原始邮件
+ * @param size 原始邮件大小（字节）
+ */
+export async function saveRawMessage(db: D1Database, emailId: string, content: string, size: number): Promise<void> {
+  try {
+    const chunksCount = Math.ceil(content.length / CHUNK_SIZE);
+    
+    for (let i = 0; i < chunksCount; i++) {
+      const chunkContent = content.substring(i * CHUNK_SIZE, (i + 1) * CHUNK_SIZE);
+      await db.prepare(`INSERT INTO raw_message_chunks (id, email_id, chunk_index, content) VALUES (?, ?, ?, ?)`).bind(generateId(), emailId, i, chunkContent).run();
+    }
+    
+    await db.prepare(`UPDATE emails SET raw_size = ? WHERE id = ?`).bind(size, emailId).run();
+    
+    console.log(`原始邮件保存成功: ${emailId}, 共 ${chunksCount} 块`);
+  } catch (error) {
+    console.error('保存原始邮件失败:', error);
+    throw new Error(`保存原始邮件失败: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * 获取原始邮件
+ * @param db 数据库实例
+ * @param emailId 邮件ID
+ * @returns Base64编码的原始邮件，未保存时返回 null
+ */
+export async function getRawMessage(db: D1Database, emailId: string): Promise<string | null> {
+  const chunks = await db.prepare(`SELECT c.content FROM raw_message_chunks c JOIN emails e ON e.id = c.email_id JOIN mailboxes m ON m.id = e.mailbox_id WHERE c.email_id = ? AND NOT ${isBurned('e', 'm')} ORDER BY c.chunk_index`).bind(emailId).all();
+  
+  if (!chunks.results || chunks.results.length === 0) return null;
+  
+  return chunks.results.map(chunk => chunk.content as string).join('');
+}
+
+/**
+ * 获取邮件列表（基于游标分页）
+ * @param db 数据库实例
+ * @param mailboxId 邮箱ID
+ * @param options 分页、筛选与排序参数
+ * @returns 邮件列表及下一页游标
+ */
+export async function getEmails(db: D1Database, mailboxId: string, options: EmailListOptions = {}): Promise<EmailListPage> {
+  const limit = Math.min(Math.max(options.limit || DEFAULT_EMAIL_PAGE_SIZE, 1), MAX_EMAIL_PAGE_SIZE);
+  const ascending = options.sort === 'asc';
+  const conditions = ['e.mailbox_id = ?', `NOT ${isBurned('e', 'm')}`];
+  const bindings: (string | number)[] = [mailboxId];
+  
+  if (options.since !== undefined) {
+    conditions.push('e.received_at >= ?');
+    bindings.push(options.since);
+  }
+  
+  if (options.unread) {
+    conditions.push('e.is_read = 0');
+  }
+  
+  if (options.hasAttachments !== undefined) {
+    conditions.push('e.has_attachments = ?');
+    bindings.push(options.hasAttachments ? 1 : 0);
+  }
+  
+  if (options.tag) {
+    conditions.push('e.tag = ?');
+    bindings.push(options.tag);
+  }
+  
+  if (options.from) {
+    conditions.push(`e.from_address LIKE ? ESCAPE '\\'`);
+    bindings.push(`%${options.from.replace(/[\\%_]/g, '\\$&')}%`);
+  }
+  
+  // 游标位置：按 (received_at, id) 排序，从上一页最后一封之后继续
+  if (options.after) {
+    const operator = ascending ? '>' : '<';
+    conditions.push(`(e.received_at ${operator} ? OR (e.received_at = ? AND e.id ${operator} ?))`);
+    bindings.push(options.after.receivedAt, options.after.receivedAt, options.after.id);
+  }
+  
+  const direction = ascending ? 'ASC' : 'DESC';
+  
+  // 多取一条用于判断是否还有下一页
+  const results = await db.prepare(`SELECT e.id, e.mailbox_id, e.from_address, e.from_name, e.to_address, e.subject, e.received_at, e.has_attachments, e.is_read, e.tag, e.verification_code FROM emails e JOIN mailboxes m ON m.id = e.mailbox_id WHERE ${conditions.join(' AND ')} ORDER BY e.received_at ${direction}, e.id ${direction} LIMIT ?`).bind(...bindings, limit + 1).all();
+  
+  const rows = results.results || [];
+  const hasMore = rows.length > limit;
+  
+  const emails: EmailListItem[] = rows.slice(0, limit).map(result => ({
+    id: result.id as string,
+    mailboxId: result.mailbox_id as string,
+    fromAddress: result.from_address as string,
+    fromName: result.from_name as string,
+    toAddress: result.to_address as string,
+    subject: result.subject as string,
+    receivedAt: result.received_at as number,
+    hasAttachments: !!result.has_attachments,
+    isRead: !!result.is_read,
+    tag: (result.tag as string) || null,
+    verificationCode: (result.verification_code as string) || null,
+  }));
+  
+  const last = emails[emails.length - 1];
+  
+  return {
+    emails,
+    nextCursor: hasMore && last ? encodeCursor(last.receivedAt, last.id) : null,
+  };
+}
+
+// 搜索摘要中标记命中词的分隔符
+const SNIPPET_MARK_START = '\u0002';
+const SNIPPET_MARK_END = '\u0003';
+
+/**
+ * 将带有标记的摘要拆分为片段
+ * @param snippet FTS5 生成的摘要
+ * @returns 摘要片段
+ */
+function parseSnippet(snippet: string): SearchSnippetSegment[] {
+  const segments: SearchSnippetSegment[] = [];
+  
+  for (const part of snippet.split(SNIPPET_MARK_START)) {
+    const endIndex = part.indexOf(SNIPPET_MARK_END);
+    if (endIndex >= 0) {
+      segments.push({ text: part.substring(0, endIndex), highlight: true });
+      if (endIndex + 1 < part.length) {
+        segments.push({ text: part.substring(endIndex + 1), highlight: false });
+      }
+    } else if (part) {
+      segments.push({ text: part, highlight: false });
+    }
+  }
+  
+  return segments;
+}
+
+/**
+ * 全文搜索邮箱中的邮件
+ * @param db 数据库实例
+ * @param mailboxId 邮箱ID
+ * @param query 搜索词
+ * @param limit 最大返回数量
+ * @returns 按相关度排序的搜索结果
+ */
+export async function searchEmails(db: D1Database, mailboxId: string, query: string, limit: number = DEFAULT_EMAIL_PAGE_SIZE): Promise<EmailSearchResult[]> {
+  const ftsQuery = buildFtsQuery(query);
+  if (!ftsQuery) return [];
+  
+  const results = await db.prepare(`SELECT e.id, e.mailbox_id, e.from_address, e.from_name, e.to_address, e.subject, e.received_at, e.has_attachments, e.is_read, e.tag, e.verification_code, snippet(emails_fts, -1, char(2), char(3), '…', 16) AS snippet FROM emails_fts JOIN emails e ON e.id = emails_fts.email_id JOIN mailboxes m ON m.id = e.mailbox_id WHERE emails_fts MATCH ? AND emails_fts.mailbox_id = ? AND NOT ${isBurned('e', 'm')} ORDER BY rank LIMIT ?`).bind(ftsQuery, mailboxId, limit).all();
+  
+  if (!results.results) return [];
+  
+  return results.results.map(result => ({
+    id: result.id as string,
+    mailboxId: result.mailbox_id as string,
+    fromAddress: result.from_address as string,
+    fromName: result.from_name as string,
+    toAddress: result.to_address as string,
+    subject: result.subject as string,
+    receivedAt: result.received_at as number,
+    hasAttachments: !!result.has_attachments,
+    isRead: !!result.is_read,
+    tag: (result.tag as string) || null,
+    verificationCode: (result.verification_code as string) || null,
+    snippet: parseSnippet((result.snippet as string) || ''),
+  }));
+}
+
+/**
+ * 解析以JSON保存的地址列表
+ * @param value 数据库中的字段值
+ * @returns 地址列表，旧数据或格式错误时返回空列表
+ */
+function parseAddressList(value: unknown): EmailAddress[] {
+  if (typeof value !== 'string' || !value) return [];
+  
+  try {
+    const list = JSON.parse(value);
+    return Array.isArray(list) ? list : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * 解析以JSON保存的字符串列表
+ * @param value 数据库中的字段值
+ * @returns 字符串列表，旧数据或格式错误时返回空列表
+ */
+function parseStringList(value: unknown): string[] {
+  if (typeof value !== 'string' || !value) return [];
+  
+  try {
+    const list = JSON.parse(value);
+    return Array.isArray(list) ? list.filter(item => typeof item === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * 获取邮箱中最近一封带有验证码或验证链接的邮件
+ * @param db 数据库实例
+ * @param mailboxId 邮箱ID
+ * @returns 验证信息，没有时返回 null
+ */
+export async function getLatestVerification(db: D1Database, mailboxId: string): Promise<LatestVerification | null> {
+  const result = await db.prepare(`SELECT e.id, e.subject, e.from_address, e.received_at, e.verification_code, e.verification_links FROM emails e JOIN mailboxes m ON m.id = e.mailbox_id WHERE e.mailbox_id = ? AND NOT ${isBurned('e', 'm')} AND (e.verification_code IS NOT NULL OR (e.verification_links IS NOT NULL AND e.verification_links != '[]')) ORDER BY e.received_at DESC, e.id DESC LIMIT 1`).bind(mailboxId).first();
+  
+  if (!result) return null;
+  
+  return {
+    emailId: result.id as string,
+    subject: result.subject as string,
+    fromAddress: result.from_address as string,
+    receivedAt: result.received_at as number,
+    code: (result.verification_code as string) || null,
+    links: parseStringList(result.verification_links),
+  };
+}
+
+/**
+ * 获取邮件详情
+ * @param db 数据库实例
+ * @param id 邮件ID
+ * @returns 邮件详情
+ */
+export async function getEmail(db: D1Database, id: string): Promise<Email | null> {
+  const result = await db.prepare(`SELECT e.id, e.mailbox_id, e.from_address, e.from_name, e.to_address, e.subject, e.text_content, e.html_content, e.received_at, e.has_attachments, e.is_read, e.raw_size, e.to_list, e.cc_list, e.reply_to_list, e.tag, e.verification_code, e.verification_links, e.privacy_report FROM emails e JOIN mailboxes m ON m.id = e.mailbox_id WHERE e.id = ? AND NOT ${isBurned('e', 'm')}`).bind(id).first();
+  
+  if (!result) return null;
+  
+  return {
+    id: result.id as string,
+    mailboxId: result.mailbox_id as string,
+    fromAddress: result.from_address as string,
+    fromName: result.from_name as string,
+    toAddress: result.to_address as string,
+    subject: result.subject as string,
+    textContent: result.text_content as string,
+    htmlContent: result.html_content as string,
+    receivedAt: result.received_at as number,
+    hasAttachments: !!result.has_attachments,
+    isRead: !!result.is_read,
+    rawSize: (result.raw_size as number) || 0,
+    to: parseAddressList(result.to_list),
+    cc: parseAddressList(result.cc_list),
+    replyTo: parseAddressList(result.reply_to_list),
+    tag: (result.tag as string) || null,
+    verificationCode: (result.verification_code as string) || null,
+    verificationLinks: parseStringList(result.verification_links),
+    privacyReport: parsePrivacyReport(result.privacy_report),
+  };
+}
+
+/**
+ * 将邮件标记为已读，并记录首次阅读时间用于保留策略
+ * @param db 数据库实例
+ * @param id 邮件ID
+ */
+export async function markEmailRead(db: D1Database, id: string): Promise<void> {
+  await db.prepare(`UPDATE emails SET is_read = 1, read_at = COALESCE(read_at, ?) WHERE id = ?`).bind(getCurrentTimestamp(), id).run();
+}
+
+/**
+ * 解析以JSON保存的隐私报告
+ * @param value 数据库中的字段值
+ * @returns 隐私报告，旧数据或格式错误时返回 null
+ */
+function parsePrivacyReport(value: unknown): PrivacyReport | null {
+  if (typeof value !== 'string' || !value) return null;
+  
+  try {
+    const report = JSON.parse(value);
+    return Array.isArray(report?.trackers) && Array.isArray(report?.links) ? report as PrivacyReport : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 获取附件列表
+ * @param db 数据库实例
+ * @param emailId 邮件ID
+ * @param includeInline 是否包含 HTML 正文引用的内联资源
+ * @returns 附件列表
+ */
+export async function getAttachments(db: D1Database, emailId: string, includeInline: boolean = true): Promise<AttachmentListItem[]> {
+  // 带 Content-ID 且为 inline 或 multipart/related 的部分属于正文内容，不作为附件显示
+  const inlineFilter = includeInline ? '' : ` AND NOT (content_id IS NOT NULL AND (disposition = 'inline' OR related = 1))`;
+  const results = await db.prepare(`SELECT id, email_id, filename, mime_type, size, created_at, is_large, chunks_count, content_id, disposition, related FROM attachments WHERE email_id = ?${inlineFilter} ORDER BY created_at ASC`).bind(emailId).all();
+  
+  if (!results.results) return [];
+  
   return results.results.map(result => ({
     id: result.id as string,
     emailId: result.email_id as string,
@@ -495,62 +1207,85 @@ export async function getAttachments(db: D1Database, emailId: string): Promise<A
     size: result.size as number,
     createdAt: result.created_at as number,
     isLarge: !!result.is_large,
-    chunksCount: result.chunks_count as number
+    chunksCount: result.chunks_count as number,
+    contentId: (result.content_id as string) || null,
+    disposition: (result.disposition as AttachmentDisposition) || null,
+    related: !!result.related
   }));
 }
 
 /**
- * 获取附件详情
+ * 按 Content-ID 查找邮件中的内联资源
+ * @param db 数据库实例
+ * @param emailId 邮件ID
+ * @param contentId Content-ID（可带尖括号）
+ * @returns 附件详情，不存在时返回 null
+ */
+export async function getAttachmentByContentId(db: D1Database, emailId: string, contentId: string): Promise<Attachment | null> {
+  const normalized = normalizeContentId(contentId);
+  if (!normalized) return null;
+  
+  const result = await db.prepare(`SELECT id FROM attachments WHERE email_id = ? AND content_id = ? ORDER BY created_at ASC LIMIT 1`).bind(emailId, normalized).first();
+  
+  return result ? getAttachment(db, result.id as string) : null;
+}
+
+/**
+ * 获取附件详情（不包含内容）
  * @param db 数据库实例
  * @param id 附件ID
  * @returns 附件详情
  */
 export async function getAttachment(db: D1Database, id: string): Promise<Attachment | null> {
-  const result = await db.prepare(`SELECT id, email_id, filename, mime_type, content, size, created_at, is_large, chunks_count FROM attachments WHERE id = ?`).bind(id).first();
+  const result = await db.prepare(`SELECT id, email_id, filename, mime_type, size, created_at, is_large, chunks_count, content_id, disposition, related, storage FROM attachments WHERE id = ?`).bind(id).first();
   
   if (!result) return null;
   
-  const isLarge = !!result.is_large;
-  let content = result.content as string;
-  
-  // 如果是大型附件，需要从块表中获取内容
-  if (isLarge) {
-    const chunksCount = result.chunks_count as number;
-    content = await getAttachmentContent(db, id, chunksCount);
-  }
-  
   return {
     id: result.id as string,
     emailId: result.email_id as string,
     filename: result.filename as string,
     mimeType: result.mime_type as string,
-    content: content,
     size: result.size as number,
     createdAt: result.created_at as number,
-    isLarge: isLarge,
-    chunksCount: result.chunks_count as number
+    isLarge: !!result.is_large,
+    chunksCount: result.chunks_count as number,
+    contentId: (result.content_id as string) || null,
+    disposition: (result.disposition as AttachmentDisposition) || null,
+    related: !!result.related,
+    storage: (result.storage as AttachmentStorageType) || 'd1'
   };
 }
 
 /**
- * 获取大型附件的内容
+ * 获取邮箱当前保存的邮件数量和占用空间
  * @param db 数据库实例
- * @param attachmentId 附件ID
- * @param chunksCount 块数量
- * @returns 完整的附件内容
+ * @param mailboxId 邮箱ID
+ * @returns 邮件数量和原始邮件总大小（字节）
  */
-async function getAttachmentContent(db: D1Database, attachmentId: string, chunksCount: number): Promise<string> {
-  let content = '';
+export async function getMailboxUsage(db: D1Database, mailboxId: string): Promise<{ emails: number; bytes: number }> {
+  const result = await db.prepare(`SELECT COUNT(*) AS emails, COALESCE(SUM(raw_size), 0) AS bytes FROM emails WHERE mailbox_id = ?`).bind(mailboxId).first();
   
-  // 按顺序获取所有块
-  for (let i = 0; i < chunksCount; i++) {
-    const chunk = await db.prepare(`SELECT content FROM attachment_chunks WHERE attachment_id = ? AND chunk_index = ?`).bind(attachmentId, i).first();
-    if (chunk && chunk.content) {
-      content += chunk.content as string;
-    }
-  }
+  return {
+    emails: (result?.emails as number) || 0,
+    bytes: (result?.bytes as number) || 0,
+  };
+}
+
+/**
+ * 按接收时间从早到晚获取邮箱中的邮件
+ * @param db 数据库实例
+ * @param mailboxId 邮箱ID
+ * @param limit 最大数量
+ * @returns 邮件ID和原始邮件大小
+ */
+export async function getOldestEmails(db: D1Database, mailboxId: string, limit: number): Promise<Array<{ id: string; rawSize: number }>> {
+  const results = await db.prepare(`SELECT id, raw_size FROM emails WHERE mailbox_id = ? ORDER BY received_at ASC, id ASC LIMIT ?`).bind(mailboxId, limit).all();
   
-  return content;
+  return results.results.map(row => ({
+    id: row.id as string,
+    rawSize: (row.raw_size as number) || 0,
+  }));
 }
 
 /**
@@ -562,6 +1297,290 @@ export async function deleteEmail(db: D1Database, id: string): Promise<void> {
   // 先清理邮件的所有附件
   await cleanupAttachments(db, id);
   
+  // 删除原始邮件
+  await db.prepare(`DELETE FROM raw_message_chunks WHERE email_id = ?`).bind(id).run();
+  
+  // 删除搜索索引
+  await db.prepare(`DELETE FROM emails_fts WHERE email_id = ?`).bind(id).run();
+  
   // 然后删除邮件
   await db.prepare(`DELETE FROM emails WHERE id = ?`).bind(id).run();
-}
\ No newline at end of file
+}
+
+/**
+ * 获取邮箱的 Webhook 列表
+ * @param db 数据库实例
+ * @param mailboxId 邮箱ID
+ * @returns Webhook 列表（不包含密钥）
+ */
+export async function getWebhooks(db: D1Database, mailboxId: string): Promise<Webhook[]> {
+  const results = await db.prepare(`SELECT id, mailbox_id, url, created_at FROM webhooks WHERE mailbox_id = ? ORDER BY created_at ASC`).bind(mailboxId).all();
+  
+  if (!results.results) return [];
+  
+  return results.results.map(result => ({
+    id: result.id as string,
+    mailboxId: result.mailbox_id as string,
+    url: result.url as string,
+    createdAt: result.created_at as number,
+  }));
+}
+
+/**
+ * 创建 Webhook
+ * @param db 数据库实例
+ * @param mailboxId 邮箱ID
+ * @param url 推送地址
+ * @param secret 签名密钥
+ * @returns 创建的 Webhook
+ */
+export async function createWebhook(db: D1Database, mailboxId: string, url: string, secret: string): Promise<Webhook> {
+  const webhook: Webhook = {
+    id: generateId(),
+    mailboxId,
+    url,
+    createdAt: getCurrentTimestamp(),
+  };
+  
+  await db.prepare(`INSERT INTO webhooks (id, mailbox_id, url, secret, created_at) VALUES (?, ?, ?, ?, ?)`).bind(webhook.id, webhook.mailboxId, webhook.url, secret, webhook.createdAt).run();
+  
+  return webhook;
+}
+
+/**
+ * 删除 Webhook 及其投递记录
+ * @param db 数据库实例
+ * @param mailboxId 邮箱ID
+ * @param webhookId Webhook ID
+ * @returns 是否删除成功
+ */
+export async function deleteWebhook(db: D1Database, mailboxId: string, webhookId: string): Promise<boolean> {
+  await db.prepare(`DELETE FROM webhook_deliveries WHERE webhook_id IN (SELECT id FROM webhooks WHERE id = ? AND mailbox_id = ?)`).bind(webhookId, mailboxId).run();
+  const result = await db.prepare(`DELETE FROM webhooks WHERE id = ? AND mailbox_id = ?`).bind(webhookId, mailboxId).run();
+  return (result.meta?.changes || 0) > 0;
+}
+
+/**
+ * 为邮箱的每个 Webhook 创建一条待投递记录
+ * @param db 数据库实例
+ * @param mailboxId 邮箱ID
+ * @param emailId 邮件ID
+ * @param payload 推送内容（JSON）
+ * @param leaseSeconds 首次投递的租约（秒），在此之前定时任务不会重试，避免与首次投递重复发送
+ * @returns 待投递任务列表
+ */
+export async function createWebhookDeliveries(db: D1Database, mailboxId: string, emailId: string, payload: string, leaseSeconds: number): Promise<PendingWebhookDelivery[]> {
+  const webhooks = await db.prepare(`SELECT id, url, secret FROM webhooks WHERE mailbox_id = ?`).bind(mailboxId).all();
+  
+  if (!webhooks.results || webhooks.results.length === 0) return [];
+  
+  const now = getCurrentTimestamp();
+  const deliveries: PendingWebhookDelivery[] = [];
+  
+  for (const webhook of webhooks.results) {
+    const deliveryId = generateId();
+    
+    await db.prepare(`INSERT INTO webhook_deliveries (id, webhook_id, email_id, payload, status, attempts, next_attempt_at, created_at, updated_at) VALUES (?, ?, ?, ?, 'pending', 0, ?, ?, ?)`).bind(deliveryId, webhook.id, emailId, payload, now + leaseSeconds, now, now).run();
+    
+    deliveries.push({
+      id: deliveryId,
+      url: webhook.url as string,
+      secret: webhook.secret as string,
+      payload,
+      attempts: 0,
+    });
+  }
+  
+  return deliveries;
+}
+
+/**
+ * 获取已到重试时间的投递任务
+ * @param db 数据库实例
+ * @param limit 最大数量
+ * @returns 待投递任务列表
+ */
+export async function getDueWebhookDeliveries(db: D1Database, limit: number): Promise<PendingWebhookDelivery[]> {
+  const now = getCurrentTimestamp();
+  const results = await db.prepare(`SELECT d.id, w.url, w.secret, d.payload, d.attempts FROM webhook_deliveries d JOIN webhooks w ON w.id = d.webhook_id WHERE d.status = 'pending' AND d.next_attempt_at <= ? ORDER BY d.next_attempt_at ASC LIMIT ?`).bind(now, limit).all();
+  
+  if (!results.results) return [];
+  
+  return results.results.map(result => ({
+    id: result.id as string,
+    url: result.url as string,
+    secret: result.secret as string,
+    payload: result.payload as string,
+    attempts: result.attempts as number,
+  }));
+}
+
+/**
+ * 记录一次投递尝试的结果
+ * @param db 数据库实例
+ * @param deliveryId 投递记录ID
+ * @param result 投递结果
+ */
+export async function updateWebhookDelivery(db: D1Database, deliveryId: string, result: { status: WebhookDeliveryStatus; attempts: number; nextAttemptAt: number | null; statusCode: number | null; error: string | null }): Promise<void> {
+  await db.prepare(`UPDATE webhook_deliveries SET status = ?, attempts = ?, next_attempt_at = ?, last_status_code = ?, last_error = ?, updated_at = ? WHERE id = ?`).bind(result.status, result.attempts, result.nextAttemptAt, result.statusCode, result.error, getCurrentTimestamp(), deliveryId).run();
+}
+
+/**
+ * 获取 Webhook 的投递记录
+ * @param db 数据库实例
+ * @param webhookId Webhook ID
+ * @param limit 最大数量
+ * @returns 按时间倒序的投递记录
+ */
+export async function getWebhookDeliveries(db: D1Database, webhookId: string, limit: number): Promise<WebhookDelivery[]> {
+  const results = await db.prepare(`SELECT id, webhook_id, email_id, status, attempts, next_attempt_at, last_status_code, last_error, created_at, updated_at FROM webhook_deliveries WHERE webhook_id = ? ORDER BY created_at DESC LIMIT ?`).bind(webhookId, limit).all();
+  
+  if (!results.results) return [];
+  
+  return results.results.map(result => ({
+    id: result.id as string,
+    webhookId: result.webhook_id as string,
+    emailId: result.email_id as string,
+    status: result.status as WebhookDeliveryStatus,
+    attempts: result.attempts as number,
+    nextAttemptAt: (result.next_attempt_at as number) ?? null,
+    lastStatusCode: (result.last_status_code as number) ?? null,
+    lastError: (result.last_error as string) ?? null,
+    createdAt: result.created_at as number,
+    updatedAt: result.updated_at as number,
+  }));
+}
+
+/**
+ * 清理已结束的旧投递记录
+ * @param db 数据库实例
+ * @param maxAgeSeconds 保留时长（秒）
+ * @returns 删除的记录数量
+ */
+export async function cleanupWebhookDeliveries(db: D1Database, maxAgeSeconds: number): Promise<number> {
+  const threshold = getCurrentTimestamp() - maxAgeSeconds;
+  const result = await db.prepare(`DELETE FROM webhook_deliveries WHERE status != 'pending' AND updated_at <= ?`).bind(threshold).run();
+  return result.meta?.changes || 0;
+}
+
+/**
+ * 记录被拒收的邮件
+ * @param db 数据库实例
+ * @param params 拒收规则、原因、发件人、收件人和邮件大小
+ */
+export async function saveRejectedMail(db: D1Database, params: Omit<RejectedMail, 'id' | 'rejectedAt'>): Promise<void> {
+  await db.prepare(`INSERT INTO rejected_mails (id, rule, reason, from_address, to_address, size, rejected_at) VALUES (?, ?, ?, ?, ?, ?, ?)`).bind(generateId(), params.rule, params.reason, params.fromAddress, params.toAddress, params.size, getCurrentTimestamp()).run();
+}
+
+/**
+ * 获取最近的拒收记录
+ * @param db 数据库实例
+ * @param limit 最大数量
+ * @param rule 只返回指定规则的记录
+ * @returns 拒收记录，按时间倒序
+ */
+export async function getRejectedMails(db: D1Database, limit: number, rule?: RejectionRule): Promise<RejectedMail[]> {
+  const query = rule
+    ? db.prepare(`SELECT id, rule, reason, from_address, to_address, size, rejected_at FROM rejected_mails WHERE rule = ? ORDER BY rejected_at DESC LIMIT ?`).bind(rule, limit)
+    : db.prepare(`SELECT id, rule, reason, from_address, to_address, size, rejected_at FROM rejected_mails ORDER BY rejected_at DESC LIMIT ?`).bind(limit);
+  const results = await query.all();
+  
+  if (!results.results) return [];
+  
+  return results.results.map(result => ({
+    id: result.id as string,
+    rule: result.rule as RejectionRule,
+    reason: result.reason as string,
+    fromAddress: (result.from_address as string) || '',
+    toAddress: (result.to_address as string) || '',
+    size: (result.size as number) || 0,
+    rejectedAt: result.rejected_at as number,
+  }));
+}
+
+/**
+ * 清理旧的拒收记录
+ * @param db 数据库实例
+ * @param maxAgeSeconds 保留时长（秒）
+ * @returns 删除的记录数量
+ */
+export async function cleanupRejectedMails(db: D1Database, maxAgeSeconds: number): Promise<number> {
+  const threshold = getCurrentTimestamp() - maxAgeSeconds;
+  const result = await db.prepare(`DELETE FROM rejected_mails WHERE rejected_at <= ?`).bind(threshold).run();
+  return result.meta?.changes || 0;
+}
+
+/**
+ * 获取频率限制计数桶在指定时间之后的事件时间
+ * @param db 数据库实例
+ * @param bucket 计数桶
+ * @param since 起始时间（不含）
+ * @param untilId 只统计ID不大于此值的事件（即在此事件之前或同时记录的事件），不传时统计全部
+ * @returns 事件时间，按时间正序
+ */
+export async function getRateLimitEvents(db: D1Database, bucket: string, since: number, untilId?: number): Promise<number[]> {
+  const query = untilId === undefined
+    ? db.prepare(`SELECT created_at FROM rate_limit_events WHERE bucket = ? AND created_at > ? ORDER BY created_at ASC`).bind(bucket, since)
+    : db.prepare(`SELECT created_at FROM rate_limit_events WHERE bucket = ? AND created_at > ? AND id <= ? ORDER BY created_at ASC`).bind(bucket, since, untilId);
+  const results = await query.all();
+  
+  if (!results.results) return [];
+  
+  return results.results.map(result => result.created_at as number);
+}
+
+/**
+ * 在频率限制计数桶中记录一次事件
+ * @param db 数据库实例
+ * @param bucket 计数桶
+ * @returns 事件ID（按记录顺序递增）
+ */
+export async function saveRateLimitEvent(db: D1Database, bucket: string): Promise<number> {
+  const result = await db.prepare(`INSERT INTO rate_limit_events (bucket, created_at) VALUES (?, ?) RETURNING id`).bind(bucket, getCurrentTimestamp()).first();
+  return result?.id as number;
+}
+
+/**
+ * 删除频率限制事件（释放未使用的名额）
+ * @param db 数据库实例
+ * @param ids 事件ID列表
+ */
+export async function deleteRateLimitEvents(db: D1Database, ids: number[]): Promise<void> {
+  for (const id of ids) {
+    await db.prepare(`DELETE FROM rate_limit_events WHERE id = ?`).bind(id).run();
+  }
+}
+
+/**
+ * 清理滑动窗口之外的频率限制事件
+ * @param db 数据库实例
+ * @param windowSeconds 窗口长度（秒）
+ * @returns 删除的记录数量
+ */
+export async function cleanupRateLimitEvents(db: D1Database, windowSeconds: number): Promise<number> {
+  const threshold = getCurrentTimestamp() - windowSeconds;
+  const result = await db.prepare(`DELETE FROM rate_limit_events WHERE created_at <= ?`).bind(threshold).run();
+  return result.meta?.changes || 0;
+}
+
+/**
+ * 将工作量证明挑战标记为已使用
+ * @param db 数据库实例
+ * @param nonce 挑战的随机数
+ * @param expiresAt 挑战的过期时间，过期后记录可以清理
+ * @returns 是否标记成功，挑战已被使用过时返回 false
+ */
+export async function spendChallenge(db: D1Database, nonce: string, expiresAt: number): Promise<boolean> {
+  const result = await db.prepare(`INSERT OR IGNORE INTO spent_challenges (nonce, expires_at) VALUES (?, ?)`).bind(nonce, expiresAt).run();
+  return (result.meta?.changes || 0) > 0;
+}
+
+/**
+ * 清理已过期的挑战记录
+ * @param db 数据库实例
+ * @returns 删除的记录数量
+ */
+export async function cleanupSpentChallenges(db: D1Database): Promise<number> {
+  const result = await db.prepare(`DELETE FROM spent_challenges WHERE expires_at <= ?`).bind(getCurrentTimestamp()).run();
+  return result.meta?.changes || 0;
+}
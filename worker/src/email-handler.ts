@@ -1,94 +1,229 @@
 import * as PostalMimeModule from 'postal-mime';
-import { Env, ParsedEmail } from './types';
-import { getMailbox, saveEmail, saveAttachment } from './database';
+import { Env, ParsedEmail, ParsedAddress, EmailAddress, MailboxMatch, WebhookPayload, PrivacyReport, RejectionRule } from './types';
+import { saveEmail, saveRawMessage, getSenderRules } from './database';
+import { storeAttachment } from './attachment-storage';
+import { getQuotaConfig, getAcceptancePolicyConfig } from './config';
+import { buildWebhookPayload, queueWebhookDeliveries, deliverWebhooks } from './webhooks';
+import { notifyNewEmail } from './email-notifier';
+import { extractVerificationInfo } from './code-extractor';
+import { analyzeTrackers } from './tracker-detector';
+import { checkMessageSize, checkAttachmentSizes, reserveMailboxSpace } from './quota';
+import { evaluateAcceptance, rejectMail } from './acceptance-policy';
+import { isSenderAllowed } from './sender-rules';
+import { arrayBufferToBase64 } from './utils';
 
 const PostalMime = PostalMimeModule.default;
 
 /**
  * 处理接收到的邮件
+ * 未通过收件策略或超出配额的邮件会在 SMTP 阶段被拒收，其他错误向上抛出
  * @param message 邮件消息
  * @param env 环境变量
+ * @param ctx 执行上下文，用于在后台投递 Webhook
  */
-export async function handleEmail(message: any, env: Env): Promise<void> {
-  try {
-    const parser = new PostalMime();
-    const email = await parser.parse(message.raw) as ParsedEmail;
+export async function handleEmail(message: any, env: Env, ctx?: ExecutionContext): Promise<void> {
+  // 读取邮件正文前先根据信封和邮件头判断是否接收
+  const decision = await evaluateAcceptance(env, message);
+  if (!decision.accepted) {
+    await rejectMail(env, message, decision.rule, decision.reason);
+    return;
+  }
+  
+  // 未开启拒收未知收件人时，静默丢弃
+  if (decision.matches.length === 0) {
+    console.log('邮箱不存在，已丢弃邮件');
+    return;
+  }
+  
+  const quota = getQuotaConfig(env);
+  
+  // 先完整读取原始邮件，解析后仍需保存原始内容
+  const rawContent = await new Response(message.raw).arrayBuffer();
+  
+  // 信封中没有大小时按实际内容再检查一次
+  const sizeError = checkMessageSize(quota, rawContent.byteLength);
+  if (sizeError) {
+    await rejectMail(env, message, 'message_size', sizeError);
+    return;
+  }
+  
+  const parser = new PostalMime();
+  const email = await parser.parse(rawContent) as ParsedEmail;
 
-    console.log('邮件解析结果:', {
-      subject: email.subject,
-      from: email.from,
-      to: email.to,
-      hasHtml: !!email.html,
-      hasText: !!email.text,
-      attachmentsCount: email.attachments?.length || 0
-    });
+  console.log('邮件解析结果:', {
+    subject: email.subject,
+    from: email.from,
+    to: email.to,
+    cc: email.cc,
+    hasHtml: !!email.html,
+    hasText: !!email.text,
+    attachmentsCount: email.attachments?.length || 0
+  });
+  
+  const attachmentError = checkAttachmentSizes(quota, email.attachments || []);
+  if (attachmentError) {
+    await rejectMail(env, message, 'attachment_size', attachmentError);
+    return;
+  }
 
-    // 提取邮箱地址部分（从email.to获取 ）
-    const mailboxAddress = email.to[0].address.split('@')[0];
-    
-    // 查找对应的邮箱
-    const mailbox = await getMailbox(env.DB, mailboxAddress);
+  // 邮件发送给多个本地邮箱时，每个邮箱保存一份
+  const { blockedSenderAction } = getAcceptancePolicyConfig(env);
+  const senders = [message.from, email.from?.address].filter(Boolean) as string[];
+  let rejection: { rule: RejectionRule; reason: string } | null = null;
+  let storedCount = 0;
+  
+  for (const match of decision.matches) {
+    // 检查邮箱的发件人白名单和黑名单
+    const senderRules = await getSenderRules(env.DB, match.mailbox.id);
+    if (!isSenderAllowed(senderRules, senders)) {
+      console.log(`邮箱 ${match.mailbox.address} 屏蔽了发件人 ${senders.join(', ')}`);
+      if (blockedSenderAction === 'reject') {
+        rejection = { rule: 'sender_blocked', reason: 'Sender is not accepted by this mailbox' };
+      }
+      continue;
+    }
     
-    if (!mailbox) {
-      console.log('邮箱不存在');
-      throw new Error('邮箱不存在');
+    // 检查邮箱配额，超出时按配置拒收或删除最早的邮件
+    const mailboxError = await reserveMailboxSpace(env.DB, quota, match.mailbox.id, rawContent.byteLength);
+    if (mailboxError) {
+      console.log(`邮箱 ${match.mailbox.address} 超出配额: ${mailboxError}`);
+      rejection = { rule: 'mailbox_full', reason: mailboxError };
+      continue;
     }
-
-    // 保存邮件
-    const savedEmail = await saveEmail(env.DB, {
-      mailboxId: mailbox.id,
-      fromAddress: email.from.address,
-      fromName: email.from.name || '',
-      toAddress: mailboxAddress,
-      subject: email.subject || '',
-      textContent: email.text || '',
-      htmlContent: email.html || '',
-      hasAttachments: !!email.attachments?.length,
-    });
-
-    // 保存附件（如果有）
-    if (email.attachments && email.attachments.length > 0) {
-      console.log(`开始保存 ${email.attachments.length} 个附件`);
-      
-      for (const attachment of email.attachments) {
-        try {
-          // 将 ArrayBuffer 转换为 Base64 字符串
-          const base64Content = arrayBufferToBase64(attachment.content);
-          
-          // 计算附件大小（字节）
-          const size = attachment.size || attachment.content.byteLength;
-          
-          // 保存附件
-          await saveAttachment(env.DB, {
-            emailId: savedEmail.id,
-            filename: attachment.filename,
-            mimeType: attachment.mimeType,
-            content: base64Content,
-            size: size
-          });
-          
-          console.log(`附件 ${attachment.filename} 保存成功`);
-        } catch (attachmentError) {
-          console.error(`保存附件 ${attachment.filename} 失败:`, attachmentError);
-          // 继续处理其他附件，不中断流程
+    
+    const payload = await storeEmail(env, match, email, rawContent);
+    
+    // 唤醒同一 isolate 内等待新邮件的长轮询请求
+    notifyNewEmail(match.mailbox.id);
+    
+    // 通知邮箱注册的 Webhook，投递失败不影响邮件保存
+    try {
+      const deliveries = await queueWebhookDeliveries(env.DB, match.mailbox, payload);
+      if (deliveries.length > 0) {
+        const delivering = deliverWebhooks(env.DB, deliveries);
+        if (ctx) {
+          ctx.waitUntil(delivering);
+        } else {
+          await delivering;
         }
       }
+    } catch (webhookError) {
+      console.error('创建 Webhook 投递任务失败:', webhookError);
+    }
+    
+    storedCount++;
+  }
+  
+  // 所有收件邮箱都拒绝接收时拒收，让发件服务器知道邮件未送达
+  if (storedCount === 0 && rejection) {
+    await rejectMail(env, message, rejection.rule, rejection.reason);
+  }
+}
+
+/**
+ * 将解析得到的地址列表展开为普通地址（地址组展开为其成员）
+ * @param addresses 解析得到的地址列表
+ * @returns 地址列表
+ */
+function flattenAddresses(addresses: ParsedAddress[] | undefined): EmailAddress[] {
+  const result: EmailAddress[] = [];
+  
+  for (const item of addresses || []) {
+    if (item.group) {
+      result.push(...item.group.filter(member => member.address));
+    } else if (item.address) {
+      result.push({ address: item.address, name: item.name || '' });
     }
-  } catch (error) {
-    console.error('处理邮件失败:', error);
   }
+  
+  return result;
 }
 
 /**
- * 将 ArrayBuffer 转换为 Base64 字符串
- * @param buffer ArrayBuffer 数据
- * @returns Base64 字符串
+ * 将邮件保存到指定邮箱，包括原始邮件和附件
+ * @param env 环境变量
+ * @param match 收件邮箱及标签
+ * @param email 解析后的邮件
+ * @param rawContent 原始邮件内容
+ * @returns 用于 Webhook 推送的邮件内容
  */
-function arrayBufferToBase64(buffer: ArrayBuffer): string {
-  const bytes = new Uint8Array(buffer);
-  let binary = '';
-  for (let i = 0; i < bytes.byteLength; i++) {
-    binary += String.fromCharCode(bytes[i]);
+async function storeEmail(env: Env, match: MailboxMatch, email: ParsedEmail, rawContent: ArrayBuffer): Promise<WebhookPayload> {
+  const { mailbox, tag } = match;
+  
+  // 提取验证码和验证链接，便于测试直接读取
+  const verification = extractVerificationInfo(email.subject || '', email.text || '', email.html || '');
+  
+  // 分析跟踪像素、跟踪参数和跳转链接，失败时不影响邮件保存
+  let privacyReport: PrivacyReport | undefined;
+  try {
+    privacyReport = await analyzeTrackers(email.html || '');
+  } catch (reportError) {
+    console.error('分析邮件跟踪器失败:', reportError);
+  }
+  
+  // 保存邮件
+  const savedEmail = await saveEmail(env.DB, {
+    mailboxId: mailbox.id,
+    fromAddress: email.from.address,
+    fromName: email.from.name || '',
+    toAddress: mailbox.address,
+    subject: email.subject || '',
+    textContent: email.text || '',
+    htmlContent: email.html || '',
+    hasAttachments: !!email.attachments?.length,
+    to: flattenAddresses(email.to),
+    cc: flattenAddresses(email.cc),
+    replyTo: flattenAddresses(email.replyTo),
+    tag,
+    verificationCode: verification.code,
+    verificationLinks: verification.links,
+    privacyReport,
+    rawSize: rawContent.byteLength,
+  });
+
+  // 保存原始邮件，失败时不影响已解析的内容
+  try {
+    await saveRawMessage(env.DB, savedEmail.id, arrayBufferToBase64(rawContent), rawContent.byteLength);
+  } catch (rawError) {
+    console.error('保存原始邮件失败:', rawError);
+  }
+
+  // 保存附件（如果有）
+  const savedAttachments: WebhookPayload['email']['attachments'] = [];
+  if (email.attachments && email.attachments.length > 0) {
+    console.log(`开始保存 ${email.attachments.length} 个附件`);
+    
+    for (const attachment of email.attachments) {
+      try {
+        // 计算附件大小（字节）
+        const size = attachment.size || attachment.content.byteLength;
+        
+        // 保存附件（内容写入存储后端）
+        const savedAttachment = await storeAttachment(env, {
+          emailId: savedEmail.id,
+          filename: attachment.filename,
+          mimeType: attachment.mimeType,
+          content: attachment.content,
+          size: size,
+          contentId: attachment.contentId,
+          disposition: attachment.disposition,
+          related: attachment.related
+        });
+        
+        savedAttachments.push({
+          id: savedAttachment.id,
+          filename: savedAttachment.filename,
+          mimeType: savedAttachment.mimeType,
+          size: savedAttachment.size,
+        });
+        
+        console.log(`附件 ${attachment.filename} 保存成功`);
+      } catch (attachmentError) {
+        console.error(`保存附件 ${attachment.filename} 失败:`, attachmentError);
+        // 继续处理其他附件，不中断流程
+      }
+    }
   }
-  return btoa(binary);
-}
\ No newline at end of file
+  
+  return buildWebhookPayload(mailbox, savedEmail, savedAttachments);
+}
@@ -0,0 +1,43 @@
+// 同一 isolate 内等待新邮件的请求，按邮箱ID分组
+const waiters = new Map<string, Set<() => void>>();
+
+/**
+ * 等待邮箱收到新邮件或超时
+ * 只能感知同一 isolate 内保存的邮件，调用方仍需轮询数据库兜底
+ * @param mailboxId 邮箱ID
+ * @param timeoutMs 最长等待时间（毫秒）
+ */
+export function waitForNewEmail(mailboxId: string, timeoutMs: number): Promise<void> {
+  return new Promise(resolve => {
+    let mailboxWaiters = waiters.get(mailboxId);
+    if (!mailboxWaiters) {
+      mailboxWaiters = new Set();
+      waiters.set(mailboxId, mailboxWaiters);
+    }
+    
+    const done = () => {
+      clearTimeout(timer);
+      mailboxWaiters!.delete(done);
+      if (mailboxWaiters!.size === 0 && waiters.get(mailboxId) === mailboxWaiters) {
+        waiters.delete(mailboxId);
+      }
+      resolve();
+    };
+    
+    const timer = setTimeout(done, Math.max(0, timeoutMs));
+    mailboxWaiters.add(done);
+  });
+}
+
+/**
+ * 通知正在等待的请求：邮箱收到了新邮件
+ * @param mailboxId 邮箱ID
+ */
+export function notifyNewEmail(mailboxId: string): void {
+  const mailboxWaiters = waiters.get(mailboxId);
+  if (!mailboxWaiters) return;
+  
+  for (const done of [...mailboxWaiters]) {
+    done();
+  }
+}
@@ -0,0 +1,399 @@
+import { SanitizedHtml, SanitizeOptions, StrippedItem } from './types';
+import { isTrackingPixel } from './tracker-detector';
+
+// 渲染结果外层容器的类名，邮件中的 CSS 选择器都会限定在该容器内
+export const EMAIL_SCOPE_CLASS = 'email-body';
+
+// 允许保留的元素
+const ALLOWED_ELEMENTS = new Set([
+  'a', 'abbr', 'address', 'article', 'b', 'big', 'blockquote', 'br', 'caption', 'center', 'cite', 'code',
+  'col', 'colgroup', 'dd', 'del', 'div', 'dl', 'dt', 'em', 'figcaption', 'figure', 'font', 'footer',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'i', 'img', 'ins', 'kbd', 'li', 'main', 'mark',
+  'ol', 'p', 'pre', 'q', 's', 'section', 'small', 'span', 'strike', 'strong', 'style', 'sub', 'sup',
+  'table', 'tbody', 'td', 'tfoot', 'th', 'thead', 'tr', 'tt', 'u', 'ul', 'wbr',
+]);
+
+// 连同内容一起删除的元素
+const REMOVED_ELEMENTS = new Set([
+  'applet', 'audio', 'base', 'button', 'canvas', 'dialog', 'embed', 'form', 'frame', 'frameset',
+  'iframe', 'input', 'link', 'math', 'meta', 'noscript', 'object', 'option', 'param', 'script',
+  'select', 'source', 'svg', 'template', 'textarea', 'title', 'track', 'video',
+]);
+
+// 允许保留的属性
+const ALLOWED_ATTRIBUTES = new Set([
+  'align', 'alt', 'bgcolor', 'border', 'cellpadding', 'cellspacing', 'class', 'color', 'colspan', 'dir',
+  'face', 'height', 'href', 'hspace', 'id', 'lang', 'nowrap', 'rowspan', 'size', 'span', 'src', 'start',
+  'style', 'title', 'type', 'valign', 'vspace', 'width',
+]);
+
+// 允许的链接协议，其他协议的链接一律删除
+const SAFE_SCHEMES = new Set(['http', 'https', 'mailto', 'cid']);
+
+// 检查地址能否解析时使用的基准地址
+const RELATIVE_BASE = 'https://relative.invalid/';
+
+// 可以拼出协议、路径或引号的 HTML 命名字符引用（其余命名引用解码后都不是 ASCII 字符）
+const NAMED_ENTITIES: Record<string, string> = {
+  Tab: '\t', NewLine: '\n', excl: '!', quot: '"', QUOT: '"', num: '#', dollar: '$', percnt: '%', amp: '&', AMP: '&',
+  apos: "'", lpar: '(', rpar: ')', ast: '*', midast: '*', plus: '+', comma: ',', period: '.', sol: '/', colon: ':',
+  semi: ';', lt: '<', LT: '<', equals: '=', gt: '>', GT: '>', quest: '?', commat: '@', lsqb: '[', lbrack: '[',
+  bsol: '\\', rsqb: ']', rbrack: ']', Hat: '^', lowbar: '_', UnderBar: '_', grave: '`', DiacriticalGrave: '`',
+  lcub: '{', lbrace: '{', verbar: '|', vert: '|', VerticalLine: '|', rcub: '}', rbrace: '}', nbsp: '\u00a0',
+};
+
+// 允许内嵌的图片格式
+const SAFE_DATA_IMAGE = /^data:image\/(png|gif|jpe?g|webp);base64,/i;
+
+// CSS 中可以执行代码或加载外部行为的写法
+const DANGEROUS_CSS = /(expression\s*\(|behavior\s*:|-moz-binding|javascript:|vbscript:)/i;
+
+// CSS 中的 url() 及其参数（在去掉注释和解码转义之后匹配）
+const CSS_URL = /url\(\s*(?:"([^"]*)"|'([^']*)'|([^)]*))/gi;
+
+// image-set() 可以不通过 url() 直接引用图片地址
+const CSS_IMAGE_SET = /image-set\s*\(/i;
+
+// 清理过程中的统计
+interface SanitizeContext {
+  record: (kind: StrippedItem['kind'], name: string) => void;
+  remoteCount: number;
+}
+
+// 保留原样的 @ 规则（不包含选择器）
+const VERBATIM_AT_RULES = /^@(font-face|(-webkit-)?keyframes|page)\b/i;
+
+// 需要递归处理内部规则的 @ 规则
+const NESTED_AT_RULES = /^@(media|supports)\b/i;
+
+/**
+ * 按白名单清理邮件 HTML：删除脚本、事件处理属性、表单、危险链接和 <base>，并限定 CSS 作用范围
+ * 远程图片默认被阻止，提供改写函数时改为加载改写后的地址；CSS 中的远程资源始终被阻止
+ * 提供 Content-ID 改写函数时，cid: 引用会被替换为对应内联资源的地址
+ * @param html 原始 HTML
+ * @param options 清理选项
+ * @returns 清理后的 HTML、被删除内容和远程内容的统计
+ */
+export async function sanitizeHtml(html: string, options: SanitizeOptions = {}): Promise<SanitizedHtml> {
+  const stripped = new Map<string, StrippedItem>();
+  const context: SanitizeContext = {
+    record: (kind, name) => {
+      const key = `${kind}:${name}`;
+      const item = stripped.get(key);
+      if (item) {
+        item.count++;
+      } else {
+        stripped.set(key, { kind, name, count: 1 });
+      }
+    },
+    remoteCount: 0,
+  };
+  const { record } = context;
+  
+  let cssBuffer = '';
+  
+  const rewriter = new HTMLRewriter()
+    .on('*', {
+      async element(element) {
+        const tagName = element.tagName.toLowerCase();
+        
+        if (REMOVED_ELEMENTS.has(tagName)) {
+          record('element', tagName);
+          element.remove();
+          return;
+        }
+        
+        // 未知元素（包括 html/head/body）只去掉标签，保留内容
+        if (!ALLOWED_ELEMENTS.has(tagName)) {
+          element.removeAndKeepContent();
+          return;
+        }
+        
+        for (const [name, value] of [...element.attributes]) {
+          const attribute = name.toLowerCase();
+          
+          if (attribute.startsWith('on')) {
+            record('attribute', attribute);
+            element.removeAttribute(name);
+          } else if (!ALLOWED_ATTRIBUTES.has(attribute)) {
+            element.removeAttribute(name);
+          } else if (attribute === 'href' || attribute === 'src') {
+            const url = normalizeUrl(value);
+            const scheme = getUrlScheme(url);
+            if (!isSafeUrl(url, tagName === 'img' && attribute === 'src')) {
+              record('url', scheme ? `${scheme}:` : 'url');
+              element.removeAttribute(name);
+            } else if (attribute === 'src' && options.rewriteContentId && scheme === 'cid') {
+              // 内联资源：按 Content-ID 改写为附件地址
+              element.setAttribute(name, escapeAttribute(await options.rewriteContentId(url.substring(4))));
+            } else if (attribute === 'src' && isRemoteUrl(url)) {
+              // 远程图片：默认阻止，允许时改写为代理地址，跟踪像素始终阻止
+              context.remoteCount++;
+              const isPixel = isTrackingPixel(element.getAttribute('width'), element.getAttribute('height'), element.getAttribute('style'));
+              if (options.rewriteRemoteImage && !isPixel) {
+                const target = url.startsWith('//') ? `https:${url}` : url;
+                element.setAttribute(name, escapeAttribute(await options.rewriteRemoteImage(target)));
+              } else {
+                element.removeAttribute(name);
+              }
+            }
+          } else if (attribute === 'style') {
+            // 先解码字符引用，&quot; 之类的引用本身含有分号，不解码会拆错声明
+            const style = sanitizeDeclarations(decodeHtmlEntities(value), context);
+            if (style.trim()) {
+              element.setAttribute(name, escapeAttribute(style));
+            } else {
+              element.removeAttribute(name);
+            }
+          }
+        }
+        
+        // 链接在新窗口打开，且不向目标页面暴露来源
+        if (tagName === 'a') {
+          element.setAttribute('target', '_blank');
+          element.setAttribute('rel', 'noopener noreferrer');
+        }
+      },
+    })
+    .on('style', {
+      text(chunk) {
+        cssBuffer += chunk.text;
+        
+        if (chunk.lastInTextNode) {
+          const css = scopeCss(cssBuffer, `.${EMAIL_SCOPE_CLASS}`, context).replace(/<\/style/gi, '');
+          chunk.replace(css, { html: true });
+          cssBuffer = '';
+        } else {
+          chunk.remove();
+        }
+      },
+    });
+  
+  const output = await rewriter.transform(new Response(html, {
+    headers: { 'Content-Type': 'text/html; charset=utf-8' },
+  })).text();
+  
+  return {
+    html: `<div class="${EMAIL_SCOPE_CLASS}">${output}</div>`,
+    stripped: [...stripped.values()],
+    remoteContent: {
+      count: context.remoteCount,
+      blocked: context.remoteCount > 0 && !options.rewriteRemoteImage,
+    },
+  };
+}
+
+/**
+ * 检查地址是否指向远程资源，相对地址、cid: 和 data: 以外的地址都视为远程地址
+ * @param url 规范化后的地址
+ * @returns 是否为远程地址
+ */
+function isRemoteUrl(url: string): boolean {
+  const scheme = getUrlScheme(url);
+  if (scheme) return scheme !== 'cid' && scheme !== 'data';
+  return url.startsWith('//');
+}
+
+/**
+ * 检查链接是否使用白名单中的协议，无法解析的地址视为不安全
+ * @param url 规范化后的地址
+ * @param allowDataImage 是否允许内嵌图片
+ * @returns 是否安全
+ */
+function isSafeUrl(url: string, allowDataImage: boolean): boolean {
+  try {
+    new URL(url, RELATIVE_BASE);
+  } catch {
+    return false;
+  }
+  
+  const scheme = getUrlScheme(url);
+  if (!scheme) return true;
+  if (scheme === 'data') return allowDataImage && SAFE_DATA_IMAGE.test(url);
+  return SAFE_SCHEMES.has(scheme);
+}
+
+/**
+ * 获取地址的协议名
+ * @param url 规范化后的地址
+ * @returns 小写的协议名，相对地址返回 null
+ */
+function getUrlScheme(url: string): string | null {
+  const match = url.match(/^([a-z][a-z0-9+.-]*):/i);
+  return match ? match[1].toLowerCase() : null;
+}
+
+/**
+ * 还原浏览器实际使用的地址：HTMLRewriter 返回的属性值没有解码字符引用，
+ * 解码后再去掉空白和控制字符，避免 "javascript&#58;" 或 "java\nscript:" 之类的绕过；
+ * 浏览器把 http(s) 地址中的反斜杠当作斜杠，"\\host/x" 也是协议相对地址
+ * @param value 属性值
+ * @returns 规范化后的地址
+ */
+function normalizeUrl(value: string): string {
+  return decodeHtmlEntities(value).replace(/[\u0000-\u0020\u007f]/g, '').replace(/\\/g, '/');
+}
+
+/**
+ * 解码 HTML 字符引用，例如 &#58;、&#x3a; 和 &colon; 都解码为冒号
+ * @param value 属性值
+ * @returns 解码后的文本
+ */
+function decodeHtmlEntities(value: string): string {
+  return value.replace(/&(?:#(\d+)|#x([0-9a-f]+));?|&([a-z][a-z0-9]*);|&(amp|lt|gt|quot|AMP|LT|GT|QUOT)(?![a-z0-9=])/gi,
+    (entity, decimal?: string, hex?: string, named?: string, legacy?: string) => {
+      if (decimal || hex) {
+        const codePoint = decimal ? parseInt(decimal, 10) : parseInt(hex!, 16);
+        return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : '\ufffd';
+      }
+      return NAMED_ENTITIES[(named || legacy)!] ?? entity;
+    });
+}
+
+/**
+ * 转义写回属性值中的 &，HTMLRewriter 只会转义引号
+ * @param value 属性值
+ * @returns 转义后的属性值
+ */
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;');
+}
+
+/**
+ * 清理 CSS 声明列表，删除危险写法、远程资源和 position: fixed
+ * @param declarations CSS 声明（style 属性或规则块内容）
+ * @param context 清理统计
+ * @returns 清理后的声明
+ */
+function sanitizeDeclarations(declarations: string, context: SanitizeContext): string {
+  return declarations
+    .split(';')
+    .filter(declaration => {
+      const decoded = decodeCssEscapes(declaration.replace(/\/\*[\s\S]*?\*\//g, ''));
+      if (loadsRemoteResource(decoded)) {
+        context.remoteCount++;
+        return false;
+      }
+      if (DANGEROUS_CSS.test(decoded)) {
+        context.record('css', declaration.split(':')[0].trim().toLowerCase() || 'declaration');
+        return false;
+      }
+      // 固定定位可以覆盖在页面其他内容之上
+      if (/^\s*position\s*:\s*fixed/i.test(declaration)) {
+        context.record('css', 'position: fixed');
+        return false;
+      }
+      return true;
+    })
+    .join(';');
+}
+
+/**
+ * 判断 CSS 声明是否可能加载远程资源
+ * 含有 image-set() 的声明一律视为远程资源，url() 的参数按属性中的地址同样判断
+ * @param declaration 去掉注释并解码转义后的 CSS 声明
+ * @returns 是否加载远程资源
+ */
+function loadsRemoteResource(declaration: string): boolean {
+  if (CSS_IMAGE_SET.test(declaration)) return true;
+  
+  for (const match of declaration.matchAll(CSS_URL)) {
+    if (isRemoteUrl(normalizeUrl(match[1] ?? match[2] ?? match[3]))) return true;
+  }
+  return false;
+}
+
+/**
+ * 解码 CSS 转义，例如 \72 和 \r 都解码为 r
+ * @param value CSS 文本
+ * @returns 解码后的文本
+ */
+function decodeCssEscapes(value: string): string {
+  // 一次扫描完成解码，"\\" 解码为一个反斜杠，不会再和后面的字符组成转义
+  return value.replace(/\\(?:([0-9a-f]{1,6})\s?|([^\n]))/gi, (_, hex?: string, char?: string) => {
+    if (!hex) return char!;
+    const codePoint = parseInt(hex, 16);
+    return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : '\ufffd';
+  });
+}
+
+/**
+ * 将样式表中的选择器限定在指定容器内
+ * @param css 样式表
+ * @param scope 容器选择器
+ * @param context 清理统计
+ * @returns 限定作用范围后的样式表
+ */
+function scopeCss(css: string, scope: string, context: SanitizeContext): string {
+  const source = css.replace(/\/\*[\s\S]*?\*\//g, '');
+  let result = '';
+  let index = 0;
+  
+  while (index < source.length) {
+    const openIndex = source.indexOf('{', index);
+    const prelude = (openIndex === -1 ? source.substring(index) : source.substring(index, openIndex)).trim();
+    
+    // @import 等不带规则块的 @ 规则会加载外部样式，直接删除
+    const statementEnd = prelude.indexOf(';');
+    if (prelude.startsWith('@') && statementEnd !== -1) {
+      context.record('css', prelude.substring(0, statementEnd).split(/\s/)[0].toLowerCase());
+      index = source.indexOf(';', index) + 1;
+      continue;
+    }
+    
+    if (openIndex === -1) break;
+    
+    const closeIndex = findBlockEnd(source, openIndex);
+    const body = source.substring(openIndex + 1, closeIndex);
+    index = closeIndex + 1;
+    
+    if (NESTED_AT_RULES.test(prelude)) {
+      result += `${prelude}{${scopeCss(body, scope, context)}}`;
+    } else if (VERBATIM_AT_RULES.test(prelude)) {
+      result += `${prelude}{${sanitizeDeclarations(body, context)}}`;
+    } else if (prelude.startsWith('@')) {
+      context.record('css', prelude.split(/\s/)[0].toLowerCase());
+    } else if (prelude) {
+      const selectors = prelude
+        .split(',')
+        .map(selector => scopeSelector(selector.trim(), scope))
+        .join(', ');
+      result += `${selectors}{${sanitizeDeclarations(body, context)}}`;
+    }
+  }
+  
+  return result;
+}
+
+/**
+ * 为单个选择器加上容器前缀，html/body/:root 直接替换为容器
+ * @param selector 选择器
+ * @param scope 容器选择器
+ * @returns 加上前缀的选择器
+ */
+function scopeSelector(selector: string, scope: string): string {
+  const rootMatch = selector.match(/^(html|body|:root)\b\s*/i);
+  if (rootMatch) {
+    const rest = selector.substring(rootMatch[0].length);
+    return rest ? `${scope} ${rest.replace(/^body\b\s*/i, '')}`.trim() : scope;
+  }
+  return `${scope} ${selector}`;
+}
+
+/**
+ * 查找与左花括号匹配的右花括号位置
+ * @param css 样式表
+ * @param openIndex 左花括号位置
+ * @returns 右花括号位置，未闭合时返回样式表末尾
+ */
+function findBlockEnd(css: string, openIndex: number): number {
+  let depth = 0;
+  for (let i = openIndex; i < css.length; i++) {
+    if (css[i] === '{') depth++;
+    if (css[i] === '}') {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return css.length;
+}
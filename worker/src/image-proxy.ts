@@ -0,0 +1,108 @@
+import { hmacSha256, timingSafeEqual } from './utils';
+
+// 代理图片的最大大小（字节）
+const MAX_IMAGE_SIZE = 5 * 1024 * 1024;
+
+// 请求远程图片的超时时间（毫秒）
+const FETCH_TIMEOUT_MS = 10000;
+
+// 允许代理的图片类型（SVG 可以包含脚本，不允许）
+const ALLOWED_IMAGE_TYPES = new Set([
+  'image/avif', 'image/bmp', 'image/gif', 'image/jpeg', 'image/jpg', 'image/png', 'image/webp', 'image/x-icon', 'image/vnd.microsoft.icon',
+]);
+
+// 代理请求失败
+export class ImageProxyError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'ImageProxyError';
+  }
+}
+
+/**
+ * 生成图片代理地址
+ * @param origin Worker 的访问地址
+ * @param secret 签名密钥
+ * @param url 远程图片地址
+ * @returns 带签名的代理地址
+ */
+export async function buildProxyUrl(origin: string, secret: string, url: string): Promise<string> {
+  const sig = await hmacSha256(secret, `image-proxy:${url}`);
+  return `${origin}/api/proxy/image?url=${encodeURIComponent(url)}&sig=${sig}`;
+}
+
+/**
+ * 校验图片代理地址的签名
+ * @param secret 签名密钥
+ * @param url 远程图片地址
+ * @param sig 签名
+ * @returns 签名是否有效
+ */
+export async function verifyProxySignature(secret: string, url: string, sig: string): Promise<boolean> {
+  return timingSafeEqual(await hmacSha256(secret, `image-proxy:${url}`), sig);
+}
+
+/**
+ * 获取远程图片，不携带 Cookie 和 Referer，并限制类型和大小
+ * @param url 远程图片地址
+ * @returns 可直接返回给浏览器的响应
+ */
+export async function fetchProxiedImage(url: string): Promise<Response> {
+  let target: URL;
+  try {
+    target = new URL(url);
+  } catch {
+    throw new ImageProxyError('无效的图片地址', 400);
+  }
+  
+  if (target.protocol !== 'https:' && target.protocol !== 'http:') {
+    throw new ImageProxyError('无效的图片地址', 400);
+  }
+  
+  const response = await fetch(target.toString(), {
+    headers: {
+      'Accept': 'image/*',
+      'User-Agent': 'Mozilla/5.0 (compatible; temp-mail-image-proxy)',
+    },
+    redirect: 'follow',
+    signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+  });
+  
+  if (!response.ok || !response.body) {
+    throw new ImageProxyError(`远程图片请求失败: ${response.status}`, 502);
+  }
+  
+  const contentType = (response.headers.get('Content-Type') || '').split(';')[0].trim().toLowerCase();
+  if (!ALLOWED_IMAGE_TYPES.has(contentType)) {
+    throw new ImageProxyError('不支持的图片类型', 415);
+  }
+  
+  const contentLength = Number(response.headers.get('Content-Length') || 0);
+  if (contentLength > MAX_IMAGE_SIZE) {
+    throw new ImageProxyError('图片过大', 413);
+  }
+  
+  // Content-Length 可能缺失或不准确，边读取边检查大小
+  let received = 0;
+  const limiter = new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      received += chunk.byteLength;
+      if (received > MAX_IMAGE_SIZE) {
+        controller.error(new ImageProxyError('图片过大', 413));
+        return;
+      }
+      controller.enqueue(chunk);
+    },
+  });
+  
+  // 只返回必要的响应头，不转发 Set-Cookie 等远程响应头
+  return new Response(response.body.pipeThrough(limiter), {
+    headers: {
+      'Content-Type': contentType,
+      'Cache-Control': 'private, max-age=86400',
+      'Content-Security-Policy': "default-src 'none'",
+      'X-Content-Type-Options': 'nosniff',
+      'Referrer-Policy': 'no-referrer',
+    },
+  });
+}
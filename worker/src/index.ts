@@ -1,8 +1,20 @@
 import { Env } from './types';
-import { initializeDatabase, cleanupExpiredMailboxes, cleanupExpiredMails, cleanupReadMails } from './database';
+import { initializeDatabase, cleanupExpiredMailboxes, cleanupMailsByRetention, cleanupWebhookDeliveries, cleanupRejectedMails, cleanupRateLimitEvents, cleanupSpentChallenges } from './database';
 import { handleEmail } from './email-handler';
+import { getEmailDomains, getRateLimitConfig } from './config';
+import { retryWebhookDeliveries } from './webhooks';
+import { deletePendingAttachmentObjects, migrateAttachmentsToR2 } from './attachment-storage';
 import app from './routes';
 
+// 每5分钟运行的任务（Webhook 重试和邮件保留策略）的 cron 表达式（需与 wrangler.toml 保持一致）
+const FREQUENT_CRON = '*/5 * * * *';
+
+// Webhook 投递记录保留时长（秒）
+const WEBHOOK_DELIVERY_RETENTION_SECONDS = 7 * 24 * 60 * 60;
+
+// 拒收记录保留时长（秒）
+const REJECTED_MAIL_RETENTION_SECONDS = 7 * 24 * 60 * 60;
+
 // 导出Worker处理函数
 export default {
   // 处理HTTP请求
@@ -11,7 +23,7 @@ export default {
     
     try {
       // 自动初始化数据库（如果需要）
-      await initializeDatabase(env.DB);
+      await initializeDatabase(env.DB, getEmailDomains(env)[0]);
       
       // 手动初始化数据库（如果请求中包含init参数）
       if (url.searchParams.has('init')) {
@@ -40,27 +52,44 @@ export default {
     }
   },
   
-  // 处理邮件
+  // 处理邮件（拒收由 handleEmail 通过 setReject 完成，其他错误原样抛出，由 Email Routing 记录为处理失败）
   async email(message: any, env: Env, ctx: ExecutionContext): Promise<void> {
     try {
-      await initializeDatabase(env.DB);
-      await handleEmail(message, env);
+      await initializeDatabase(env.DB, getEmailDomains(env)[0]);
+      await handleEmail(message, env, ctx);
     } catch (error) {
       console.error('处理邮件失败:', error);
-      throw new Error(`Failed to process email: ${error instanceof Error ? error.message : String(error)}`);
+      throw error;
     }
   },
   
-  // 定时任务 - 每小时清理过期邮箱以及过期邮件和已被阅读的邮件
+  // 定时任务 - 每5分钟重试失败的 Webhook 投递并按邮箱的保留策略删除邮件，每小时清理过期邮箱
   async scheduled(event: ScheduledEvent, env: Env, ctx: ExecutionContext): Promise<void> {
     try {
-      await initializeDatabase(env.DB);
+      await initializeDatabase(env.DB, getEmailDomains(env)[0]);
+      
+      if (event.cron === FREQUENT_CRON) {
+        const retried = await retryWebhookDeliveries(env.DB);
+        console.log(`已重试 ${retried} 个 Webhook 投递`);
+        const deletedMail = await cleanupMailsByRetention(env.DB);
+        console.log(`已按保留策略清理 ${deletedMail} 封邮件`);
+        return;
+      }
+      
       const deleted = await cleanupExpiredMailboxes(env.DB);
       console.log(`已清理 ${deleted} 个过期邮箱`);
-      const deletedMail = await cleanupExpiredMails(env.DB);
-      console.log(`已清理 ${deletedMail} 个过期邮件`);
-      const deletedReadMail = await cleanupReadMails(env.DB);
-      console.log(`已清理 ${deletedReadMail} 个已被阅读的邮件`);
+      const deletedDeliveries = await cleanupWebhookDeliveries(env.DB, WEBHOOK_DELIVERY_RETENTION_SECONDS);
+      console.log(`已清理 ${deletedDeliveries} 条 Webhook 投递记录`);
+      const deletedRejections = await cleanupRejectedMails(env.DB, REJECTED_MAIL_RETENTION_SECONDS);
+      console.log(`已清理 ${deletedRejections} 条拒收记录`);
+      const deletedRateLimitEvents = await cleanupRateLimitEvents(env.DB, getRateLimitConfig(env).windowSeconds);
+      console.log(`已清理 ${deletedRateLimitEvents} 条频率限制记录`);
+      const deletedChallenges = await cleanupSpentChallenges(env.DB);
+      console.log(`已清理 ${deletedChallenges} 条工作量证明记录`);
+      const deletedObjects = await deletePendingAttachmentObjects(env);
+      console.log(`已删除 ${deletedObjects} 个附件对象`);
+      const migrated = await migrateAttachmentsToR2(env);
+      console.log(`已将 ${migrated} 个附件从 D1 迁移到 R2`);
     } catch (error) {
       console.error('定时任务执行失败:', error);
     }
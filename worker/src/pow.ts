@@ -0,0 +1,104 @@
+import { Env } from './types';
+import { spendChallenge } from './database';
+import { getProofOfWorkConfig, getSigningSecret } from './config';
+import { countRecentMailboxCreations } from './rate-limit';
+import { generateAccessToken, getCurrentTimestamp, hmacSha256, timingSafeEqual } from './utils';
+
+// 工作量证明挑战：客户端需要找到 solution，使 SHA-256(challenge + ':' + solution) 的前 difficulty 个比特为 0
+export interface ProofOfWorkChallenge {
+  challenge: string;
+  difficulty: number;
+  expiresAt: number;
+}
+
+/**
+ * 判断客户端创建邮箱时是否需要提交工作量证明
+ * 未配置签名密钥或难度为 0 时不启用
+ * @param env 环境变量
+ * @param ip 客户端IP
+ * @returns 是否需要
+ */
+export async function isProofOfWorkRequired(env: Env, ip: string): Promise<boolean> {
+  const config = getProofOfWorkConfig(env);
+  if (!getSigningSecret(env) || config.difficulty === 0) return false;
+  if (config.threshold === 0) return true;
+  
+  return await countRecentMailboxCreations(env, ip) >= config.threshold;
+}
+
+/**
+ * 生成与客户端IP绑定的签名挑战
+ * @param env 环境变量
+ * @param ip 客户端IP
+ * @returns 挑战，未启用工作量证明时返回 null
+ */
+export async function createChallenge(env: Env, ip: string): Promise<ProofOfWorkChallenge | null> {
+  const config = getProofOfWorkConfig(env);
+  const secret = getSigningSecret(env);
+  if (!secret || config.difficulty === 0) return null;
+  
+  const nonce = generateAccessToken().substring(0, 32);
+  const expiresAt = getCurrentTimestamp() + config.ttlSeconds;
+  const payload = `${nonce}.${config.difficulty}.${expiresAt}`;
+  const sig = await hmacSha256(secret, `pow:${ip}:${payload}`);
+  
+  return { challenge: `${payload}.${sig}`, difficulty: config.difficulty, expiresAt };
+}
+
+/**
+ * 校验工作量证明，校验通过后挑战不能再次使用
+ * @param env 环境变量
+ * @param ip 客户端IP
+ * @param pow 客户端提交的 { challenge, solution }
+ * @returns 错误信息，校验通过时返回 null
+ */
+export async function verifyProofOfWork(env: Env, ip: string, pow: unknown): Promise<string | null> {
+  const secret = getSigningSecret(env);
+  if (!secret) return null;
+  
+  const { challenge, solution } = (pow || {}) as { challenge?: unknown; solution?: unknown };
+  if (typeof challenge !== 'string' || typeof solution !== 'string') {
+    return '需要完成工作量证明';
+  }
+  
+  const parts = challenge.split('.');
+  if (parts.length !== 4) {
+    return '无效的工作量证明挑战';
+  }
+  
+  const [nonce, difficultyText, expiresText, sig] = parts;
+  const expected = await hmacSha256(secret, `pow:${ip}:${nonce}.${difficultyText}.${expiresText}`);
+  if (!timingSafeEqual(expected, sig)) {
+    return '无效的工作量证明挑战';
+  }
+  
+  const expiresAt = Number(expiresText);
+  if (expiresAt <= getCurrentTimestamp()) {
+    return '工作量证明挑战已过期';
+  }
+  
+  if (!/^[0-9a-z]{1,32}$/i.test(solution) || !(await hasLeadingZeroBits(`${challenge}:${solution}`, Number(difficultyText)))) {
+    return '工作量证明无效';
+  }
+  
+  if (!(await spendChallenge(env.DB, nonce, expiresAt))) {
+    return '工作量证明挑战已被使用';
+  }
+  
+  return null;
+}
+
+/**
+ * 判断字符串的 SHA-256 哈希是否以指定数量的 0 比特开头
+ * @param value 字符串
+ * @param bits 比特数
+ * @returns 是否满足
+ */
+async function hasLeadingZeroBits(value: string, bits: number): Promise<boolean> {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value)));
+  
+  for (let i = 0; i < bits; i++) {
+    if (digest[i >> 3] & (0x80 >> (i & 7))) return false;
+  }
+  return true;
+}
@@ -0,0 +1,98 @@
+import { MailboxUsage } from './types';
+import { QuotaConfig } from './config';
+import { getMailboxUsage, getOldestEmails, deleteEmail } from './database';
+
+// 每次查询的待删除邮件数量
+const EVICTION_BATCH_SIZE = 20;
+
+/**
+ * 检查邮件大小是否超出限制
+ * @param config 配额配置
+ * @param size 原始邮件大小（字节）
+ * @returns 拒收原因（返回给发件服务器），未超出时返回 null
+ */
+export function checkMessageSize(config: QuotaConfig, size: number): string | null {
+  if (config.maxMessageBytes > 0 && size > config.maxMessageBytes) {
+    return `Message size ${size} bytes exceeds the limit of ${config.maxMessageBytes} bytes`;
+  }
+  return null;
+}
+
+/**
+ * 检查附件大小是否超出限制
+ * @param config 配额配置
+ * @param attachments 附件列表
+ * @returns 拒收原因（返回给发件服务器），未超出时返回 null
+ */
+export function checkAttachmentSizes(config: QuotaConfig, attachments: Array<{ filename: string; size?: number; content: ArrayBuffer }>): string | null {
+  if (config.maxAttachmentBytes <= 0) return null;
+  
+  for (const attachment of attachments) {
+    const size = attachment.size || attachment.content.byteLength;
+    if (size > config.maxAttachmentBytes) {
+      return `Attachment "${attachment.filename}" size ${size} bytes exceeds the limit of ${config.maxAttachmentBytes} bytes`;
+    }
+  }
+  return null;
+}
+
+/**
+ * 为新邮件预留邮箱空间：按配置拒收，或从最早的邮件开始删除直到放得下
+ * @param db 数据库实例
+ * @param config 配额配置
+ * @param mailboxId 邮箱ID
+ * @param size 新邮件大小（字节）
+ * @returns 拒收原因（返回给发件服务器），可以保存时返回 null
+ */
+export async function reserveMailboxSpace(db: D1Database, config: QuotaConfig, mailboxId: string, size: number): Promise<string | null> {
+  if (config.maxEmails <= 0 && config.maxBytes <= 0) return null;
+  
+  // 单封邮件就超过邮箱容量时，删除旧邮件也无济于事
+  if (config.maxBytes > 0 && size > config.maxBytes) {
+    return `Message size ${size} bytes exceeds the mailbox quota of ${config.maxBytes} bytes`;
+  }
+  
+  let { emails, bytes } = await getMailboxUsage(db, mailboxId);
+  const isOverQuota = () =>
+    (config.maxEmails > 0 && emails + 1 > config.maxEmails) ||
+    (config.maxBytes > 0 && bytes + size > config.maxBytes);
+  
+  if (!isOverQuota()) return null;
+  
+  if (config.policy === 'reject') {
+    return 'Mailbox is full';
+  }
+  
+  // 按接收顺序删除最早的邮件
+  while (isOverQuota()) {
+    const oldest = await getOldestEmails(db, mailboxId, EVICTION_BATCH_SIZE);
+    if (oldest.length === 0) break;
+    
+    for (const email of oldest) {
+      if (!isOverQuota()) break;
+      await deleteEmail(db, email.id);
+      emails--;
+      bytes -= email.rawSize;
+      console.log(`邮箱 ${mailboxId} 超出配额，已删除最早的邮件 ${email.id}`);
+    }
+  }
+  
+  return isOverQuota() ? 'Mailbox is full' : null;
+}
+
+/**
+ * 获取邮箱的使用量和配额上限
+ * @param db 数据库实例
+ * @param config 配额配置
+ * @param mailboxId 邮箱ID
+ * @returns 使用量
+ */
+export async function getMailboxQuotaUsage(db: D1Database, config: QuotaConfig, mailboxId: string): Promise<MailboxUsage> {
+  const usage = await getMailboxUsage(db, mailboxId);
+  
+  return {
+    ...usage,
+    maxEmails: config.maxEmails,
+    maxBytes: config.maxBytes,
+  };
+}
@@ -0,0 +1,130 @@
+import { Env } from './types';
+import { getMailboxes, getRateLimitEvents, saveRateLimitEvent, deleteRateLimitEvents } from './database';
+import { getRateLimitConfig } from './config';
+import { getCurrentTimestamp } from './utils';
+
+// 频率限制的判断结果：允许时返回占用名额的事件ID，超出限制时返回原因和建议的重试等待时间（秒）
+export type RateLimitDecision =
+  | { allowed: true; eventIds: number[] }
+  | { allowed: false; reason: string; retryAfter: number };
+
+// 一个滑动窗口计数桶及其上限
+interface RateLimitBucket {
+  key: string;
+  limit: number;
+}
+
+/**
+ * 为一次邮箱创建占用名额
+ * 依次检查：IP 同时有效的邮箱数量、IP 在窗口内的创建次数、IPv6 /64 网段在窗口内的创建次数
+ * 创建次数先记录再统计，并发请求按记录顺序计数，不会同时通过检查；超出限制时删除本次记录
+ * @param env 环境变量
+ * @param ip 客户端IP
+ * @returns 判断结果，创建邮箱出错时需要调用 releaseMailboxCreation 释放名额（地址已被占用时不释放）
+ */
+export async function reserveMailboxCreation(env: Env, ip: string): Promise<RateLimitDecision> {
+  const config = getRateLimitConfig(env);
+  const now = getCurrentTimestamp();
+  
+  if (config.maxActivePerIp > 0) {
+    const active = await getMailboxes(env.DB, ip);
+    if (active.length >= config.maxActivePerIp) {
+      // 最早过期的邮箱过期后才有空余名额
+      const expiries = active.map(mailbox => mailbox.expiresAt).sort((a, b) => a - b);
+      return {
+        allowed: false,
+        reason: `同时有效的邮箱数量已达上限（${config.maxActivePerIp} 个）`,
+        retryAfter: Math.max(1, expiries[active.length - config.maxActivePerIp] - now),
+      };
+    }
+  }
+  
+  const eventIds: number[] = [];
+  for (const bucket of getBuckets(ip, config.maxPerIp, config.maxPerSubnet)) {
+    const eventId = await saveRateLimitEvent(env.DB, bucket.key);
+    eventIds.push(eventId);
+    if (bucket.limit === 0) continue;
+    
+    // 统计窗口内在本次记录之前（含本次）的事件
+    const events = await getRateLimitEvents(env.DB, bucket.key, now - config.windowSeconds, eventId);
+    if (events.length > bucket.limit) {
+      await deleteRateLimitEvents(env.DB, eventIds);
+      
+      // 去掉本次记录后，窗口内较早的事件移出窗口才有空余名额
+      const freedAt = events[events.length - 1 - bucket.limit] + config.windowSeconds;
+      return {
+        allowed: false,
+        reason: '创建邮箱过于频繁，请稍后再试',
+        retryAfter: Math.max(1, freedAt - now),
+      };
+    }
+  }
+  
+  return { allowed: true, eventIds };
+}
+
+/**
+ * 释放未使用的名额（创建邮箱出错时调用）
+ * @param env 环境变量
+ * @param eventIds 占用名额时记录的事件ID
+ */
+export async function releaseMailboxCreation(env: Env, eventIds: number[]): Promise<void> {
+  await deleteRateLimitEvents(env.DB, eventIds);
+}
+
+/**
+ * 统计客户端IP在滑动窗口内创建的邮箱数量
+ * @param env 环境变量
+ * @param ip 客户端IP
+ * @returns 创建数量
+ */
+export async function countRecentMailboxCreations(env: Env, ip: string): Promise<number> {
+  const config = getRateLimitConfig(env);
+  const [bucket] = getBuckets(ip, config.maxPerIp, config.maxPerSubnet);
+  const events = await getRateLimitEvents(env.DB, bucket.key, getCurrentTimestamp() - config.windowSeconds);
+  return events.length;
+}
+
+/**
+ * 获取客户端IP对应的计数桶，第一个始终为IP计数桶（也用于判断是否需要工作量证明）
+ * 上限为 0 的桶只记录不限制
+ * @param ip 客户端IP
+ * @param maxPerIp 每个IP的上限
+ * @param maxPerSubnet 每个 IPv6 /64 网段的上限
+ * @returns 计数桶列表
+ */
+function getBuckets(ip: string, maxPerIp: number, maxPerSubnet: number): RateLimitBucket[] {
+  const buckets: RateLimitBucket[] = [{ key: `ip:${ip.toLowerCase()}`, limit: maxPerIp }];
+  
+  const subnet = getIpv6Subnet(ip);
+  if (subnet && maxPerSubnet > 0) {
+    buckets.push({ key: `subnet:${subnet}`, limit: maxPerSubnet });
+  }
+  
+  return buckets;
+}
+
+/**
+ * 获取 IPv6 地址所在的 /64 网段
+ * @param ip IP地址
+ * @returns 网段，例如 2001:db8:0:1::/64，不是有效的 IPv6 地址时返回 null
+ */
+function getIpv6Subnet(ip: string): string | null {
+  // IPv4 映射地址（例如 ::ffff:1.2.3.4）按 IPv4 处理
+  if (!ip.includes(':') || ip.includes('.')) return null;
+  
+  const halves = ip.toLowerCase().split('::');
+  if (halves.length > 2) return null;
+  
+  const toGroups = (part: string) => part ? part.split(':') : [];
+  const head = toGroups(halves[0]);
+  const tail = halves.length === 2 ? toGroups(halves[1]) : [];
+  const missing = 8 - head.length - tail.length;
+  
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+  
+  const groups = [...head, ...Array(missing).fill('0'), ...tail];
+  if (!groups.every(group => /^[0-9a-f]{1,4}$/.test(group))) return null;
+  
+  return `${groups.slice(0, 4).map(group => parseInt(group, 16).toString(16)).join(':')}::/64`;
+}
@@ -1,18 +1,103 @@
-import { Hono } from 'hono';
+import { Hono, Context } from 'hono';
 import { cors } from 'hono/cors';
-import { Env, SendEmailParams, ParsedEmail } from './types';
+import { Env, SendEmailParams, ParsedEmail, EmailListOptions, Attachment, RejectionRule, SenderRuleAction, Mailbox } from './types';
 import { 
-  createMailbox, 
   getMailbox, 
   deleteMailbox, 
   getEmails, 
   getEmail, 
+  markEmailRead,
   deleteEmail,
   getAttachments,
-  getAttachment
+  getAttachment,
+  getAttachmentByContentId,
+  getMailboxTokenHash,
+  getEmailMailboxId,
+  getAttachmentMailboxId,
+  updateMailboxExpiry,
+  updateMailboxRetention,
+  searchEmails,
+  getRawMessage,
+  getMailboxPatterns,
+  isMailboxPatternTaken,
+  addMailboxPattern,
+  deleteMailboxPattern,
+  getWebhooks,
+  createWebhook,
+  deleteWebhook,
+  getWebhookDeliveries,
+  getLatestVerification,
+  getRejectedMails,
+  getSenderRules,
+  saveSenderRule,
+  deleteSenderRule,
+  MAX_EMAIL_PAGE_SIZE
 } from './database';
-import { generateRandomAddress, isValidEmailAddress, sendEmail } from './utils';
+import { 
+  isValidEmailAddress, 
+  isValidLocalPart, 
+  isValidAddressPrefix,
+  parseAddressStyle,
+  isValidAddressPattern,
+  isValidSenderPattern,
+  sendEmail, 
+  generateAccessToken, 
+  hashToken, 
+  timingSafeEqual,
+  hmacSha256,
+  getCurrentTimestamp,
+  decodeCursor,
+  base64ToBytes,
+  parseRangeHeader,
+  buildContentDisposition,
+  parseRetention
+} from './utils';
 import { parseRawEmail } from './email-builder';
+import { getEmailDomains, getMailboxLifetimeConfig, getSigningSecret, getQuotaConfig, getAdminToken, getAddressGeneratorConfig, ADDRESS_LENGTH_RANGE } from './config';
+import { waitForNewEmail } from './email-notifier';
+import { sanitizeHtml } from './html-sanitizer';
+import { readAttachment } from './attachment-storage';
+import { createZipStream, dedupeFilename } from './zip-stream';
+import { buildProxyUrl, verifyProxySignature, fetchProxiedImage, ImageProxyError } from './image-proxy';
+import { getMailboxQuotaUsage } from './quota';
+import { reserveMailboxCreation, releaseMailboxCreation } from './rate-limit';
+import { isProofOfWorkRequired, createChallenge, verifyProofOfWork } from './pow';
+import { createMailboxIfAvailable, createMailboxWithGeneratedAddress } from './address-generator';
+import { normalizeSenderPattern } from './sender-rules';
+
+type AppContext = Context<{ Bindings: Env }>;
+
+// 每个邮箱最多可添加的通配规则数量
+const MAX_MAILBOX_PATTERNS = 10;
+
+// 每个邮箱最多可添加的发件人规则数量
+const MAX_SENDER_RULES = 100;
+
+// 每个邮箱最多可注册的 Webhook 数量
+const MAX_MAILBOX_WEBHOOKS = 5;
+
+// 投递记录接口最多返回的数量
+const MAX_WEBHOOK_DELIVERIES = 100;
+
+// 拒收记录接口最多返回的数量
+const MAX_REJECTED_MAILS = 500;
+
+// 可按规则筛选的拒收记录
+const REJECTION_RULES: RejectionRule[] = ['unknown_recipient', 'expired_mailbox', 'sender_domain', 'message_size', 'attachment_size', 'sender_auth', 'sender_blocked', 'mailbox_full'];
+
+// 等待新邮件的默认和最长时间（秒）
+const DEFAULT_WAIT_TIMEOUT = 30;
+const MAX_WAIT_TIMEOUT = 60;
+
+// 等待新邮件时查询数据库的间隔（毫秒），每次翻倍直到上限
+const MIN_WAIT_POLL_INTERVAL = 1000;
+const MAX_WAIT_POLL_INTERVAL = 5000;
+
+// 内联资源签名地址的有效期（秒）
+const INLINE_LINK_TTL_SECONDS = 3600;
+
+// 允许在页面内预览的附件类型（不包括可执行脚本的 HTML、SVG 等）
+const INLINE_PREVIEW_TYPES = /^(image\/(png|jpe?g|gif|webp|avif|bmp)|video\/[\w.+-]+|audio\/[\w.+-]+|application\/pdf)$/i;
 
 // 创建 Hono 应用
 const app = new Hono<{ Bindings: Env }>();
@@ -21,15 +106,276 @@ const app = new Hono<{ Bindings: Env }>();
 app.use('/*', cors({
   origin: '*',
   allowMethods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowHeaders: ['Content-Type'],
+  allowHeaders: ['Content-Type', 'Authorization'],
+  exposeHeaders: ['Retry-After'],
   maxAge: 86400,
 }));
 
+/**
+ * 从请求中读取邮箱访问令牌
+ * 只从 Authorization 头读取；原始邮件、附件下载等无法设置请求头的下载接口可额外接受 token 查询参数
+ * @param c 请求上下文
+ * @param allowQueryToken 是否接受 token 查询参数
+ * @returns 访问令牌
+ */
+function getAccessToken(c: AppContext, allowQueryToken: boolean = false): string | null {
+  const authorization = c.req.header('Authorization');
+  if (authorization && authorization.startsWith('Bearer ')) {
+    return authorization.substring(7).trim() || null;
+  }
+  
+  return allowQueryToken ? c.req.query('token') || null : null;
+}
+
+/**
+ * 校验请求携带的令牌是否拥有指定邮箱
+ * @param c 请求上下文
+ * @param mailboxId 邮箱ID
+ * @param allowQueryToken 是否接受 token 查询参数（仅用于下载接口）
+ * @returns 校验失败时返回错误响应，校验通过时返回 null
+ */
+async function authorizeMailbox(c: AppContext, mailboxId: string, allowQueryToken: boolean = false): Promise<Response | null> {
+  const token = getAccessToken(c, allowQueryToken);
+  if (!token) {
+    return c.json({ success: false, error: '缺少访问令牌' }, 401);
+  }
+  
+  const tokenHash = await getMailboxTokenHash(c.env.DB, mailboxId);
+  if (!tokenHash || !timingSafeEqual(tokenHash, await hashToken(token))) {
+    return c.json({ success: false, error: '无权访问该邮箱' }, 403);
+  }
+  
+  return null;
+}
+
+/**
+ * 校验请求携带的令牌是否为管理员令牌
+ * @param c 请求上下文
+ * @returns 校验失败时返回错误响应，校验通过时返回 null
+ */
+function authorizeAdmin(c: AppContext): Response | null {
+  const adminToken = getAdminToken(c.env);
+  if (!adminToken) {
+    return c.json({ success: false, error: '未配置管理员令牌' }, 403);
+  }
+  
+  const token = getAccessToken(c);
+  if (!token) {
+    return c.json({ success: false, error: '缺少访问令牌' }, 401);
+  }
+  
+  if (!timingSafeEqual(token, adminToken)) {
+    return c.json({ success: false, error: '无权访问' }, 403);
+  }
+  
+  return null;
+}
+
+/**
+ * 检查 Webhook 地址是否有效（仅支持 http/https）
+ * @param url Webhook 地址
+ * @returns 是否有效
+ */
+function isValidWebhookUrl(url: string): boolean {
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === 'https:' || parsed.protocol === 'http:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 以流的形式返回附件内容，支持 Range 请求和基于 ETag 的缓存
+ * @param c 请求上下文
+ * @param attachment 附件
+ * @param disposition inline 或 attachment
+ * @returns 附件内容响应
+ */
+async function streamAttachment(c: AppContext, attachment: Attachment, disposition: 'inline' | 'attachment'): Promise<Response> {
+  // 附件内容保存后不会改变，附件ID即可作为 ETag
+  const etag = `"${attachment.id}"`;
+  const headers: Record<string, string> = {
+    'Content-Type': attachment.mimeType,
+    'Content-Disposition': buildContentDisposition(disposition, attachment.filename),
+    'ETag': etag,
+    'Cache-Control': 'private, max-age=31536000, immutable',
+    'Accept-Ranges': 'bytes',
+    'X-Content-Type-Options': 'nosniff',
+  };
+  
+  // 禁止 HTML、SVG 等附件在 API 域名下执行脚本（PDF 需要浏览器内置查看器，不设置）
+  if (attachment.mimeType !== 'application/pdf') {
+    headers['Content-Security-Policy'] = "default-src 'none'";
+  }
+  
+  const ifNoneMatch = c.req.header('If-None-Match');
+  if (ifNoneMatch && ifNoneMatch.split(',').some(value => value.trim() === etag || value.trim() === '*')) {
+    return new Response(null, { status: 304, headers });
+  }
+  
+  // If-Range 与 ETag 不一致时忽略 Range，返回完整内容
+  const ifRange = c.req.header('If-Range');
+  const range = !ifRange || ifRange === etag ? parseRangeHeader(c.req.header('Range'), attachment.size) : null;
+  
+  if (range === 'unsatisfiable') {
+    return new Response(null, { status: 416, headers: { ...headers, 'Content-Range': `bytes */${attachment.size}` } });
+  }
+  
+  const body = await readAttachment(c.env, attachment, range || undefined);
+  
+  if (!body) {
+    return c.json({ success: false, error: '附件内容不存在' }, 404);
+  }
+  
+  if (range) {
+    headers['Content-Range'] = `bytes ${range.offset}-${range.offset + range.length - 1}/${attachment.size}`;
+    headers['Content-Length'] = String(range.length);
+    return new Response(body, { status: 206, headers });
+  }
+  
+  headers['Content-Length'] = String(attachment.size);
+  return new Response(body, { headers });
+}
+
+/**
+ * 解码 cid: 地址中的 Content-ID（RFC 2392 允许对其进行 URL 编码）
+ * @param contentId cid: 之后的部分
+ * @returns 解码后的 Content-ID
+ */
+function decodeContentId(contentId: string): string {
+  try {
+    return decodeURIComponent(contentId);
+  } catch {
+    return contentId;
+  }
+}
+
+/**
+ * 生成内联资源的限时签名地址，签名只对该邮件中的该 Content-ID 有效，地址中不包含访问令牌
+ * @param origin Worker 的访问地址
+ * @param secret 签名密钥
+ * @param emailId 邮件ID
+ * @param contentId 解码后的 Content-ID
+ * @returns 带签名的内联资源地址
+ */
+async function buildInlineUrl(origin: string, secret: string, emailId: string, contentId: string): Promise<string> {
+  const expires = getCurrentTimestamp() + INLINE_LINK_TTL_SECONDS;
+  const sig = await hmacSha256(secret, `cid:${emailId}:${contentId}:${expires}`);
+  return `${origin}/api/emails/${emailId}/cid/${encodeURIComponent(contentId)}?expires=${expires}&sig=${sig}`;
+}
+
+/**
+ * 校验内联资源地址的签名和有效期
+ * @param secret 签名密钥
+ * @param emailId 邮件ID
+ * @param contentId 解码后的 Content-ID
+ * @param expires 过期时间（秒级时间戳）
+ * @param sig 签名
+ * @returns 签名是否有效且未过期
+ */
+async function verifyInlineSignature(secret: string, emailId: string, contentId: string, expires: string, sig: string): Promise<boolean> {
+  if (!/^\d+$/.test(expires) || Number(expires) <= getCurrentTimestamp()) return false;
+  return timingSafeEqual(await hmacSha256(secret, `cid:${emailId}:${contentId}:${expires}`), sig);
+}
+
+/**
+ * 解析主题匹配条件：以 ~ 开头时按正则表达式匹配，否则按不区分大小写的子串匹配
+ * @param subject 主题匹配条件
+ * @returns 匹配函数，正则表达式无效时返回 null
+ */
+function parseSubjectMatcher(subject: string | undefined): ((value: string) => boolean) | null {
+  if (!subject) return () => true;
+  
+  if (subject.startsWith('~')) {
+    try {
+      const pattern = new RegExp(subject.substring(1), 'i');
+      return value => pattern.test(value);
+    } catch {
+      return null;
+    }
+  }
+  
+  const keyword = subject.toLowerCase();
+  return value => value.toLowerCase().includes(keyword);
+}
+
+/**
+ * 解析邮件列表的查询参数
+ * @param c 请求上下文
+ * @returns 查询参数，参数无效时返回错误信息
+ */
+function parseEmailListQuery(c: AppContext): { options: EmailListOptions } | { error: string } {
+  const options: EmailListOptions = {};
+  const { limit, cursor, since, unread, hasAttachments, from, tag, sort } = c.req.query();
+  
+  if (limit !== undefined) {
+    const parsedLimit = Number(limit);
+    if (!Number.isInteger(parsedLimit) || parsedLimit < 1 || parsedLimit > MAX_EMAIL_PAGE_SIZE) {
+      return { error: `limit 必须是 1 到 ${MAX_EMAIL_PAGE_SIZE} 之间的整数` };
+    }
+    options.limit = parsedLimit;
+  }
+  
+  if (cursor) {
+    const after = decodeCursor(cursor);
+    if (!after) {
+      return { error: '无效的分页游标' };
+    }
+    options.after = after;
+  }
+  
+  if (since !== undefined) {
+    const parsedSince = Number(since);
+    if (!Number.isFinite(parsedSince)) {
+      return { error: '无效的 since 参数' };
+    }
+    options.since = parsedSince;
+  }
+  
+  if (unread !== undefined) {
+    options.unread = unread === 'true';
+  }
+  
+  if (hasAttachments !== undefined) {
+    options.hasAttachments = hasAttachments === 'true';
+  }
+  
+  if (from) {
+    options.from = from;
+  }
+  
+  if (tag) {
+    options.tag = tag.toLowerCase();
+  }
+  
+  if (sort !== undefined) {
+    if (sort !== 'asc' && sort !== 'desc') {
+      return { error: 'sort 只能是 asc 或 desc' };
+    }
+    options.sort = sort;
+  }
+  
+  return { options };
+}
+
 // 健康检查端点
 app.get('/', (c) => {
   return c.json({ status: 'ok', message: '临时邮箱系统API正常运行' });
 });
 
+// 获取前端所需的公开配置
+app.get('/api/config', (c) => {
+  return c.json({ 
+    success: true, 
+    config: {
+      domains: getEmailDomains(c.env),
+      lifetime: getMailboxLifetimeConfig(c.env),
+      imageProxy: !!getSigningSecret(c.env),
+    }
+  });
+});
+
 // 发送邮件API，暂时不用
 app.post('/api/send-email', async (c) => {
   try {
@@ -148,6 +494,24 @@ app.post('/api/parse-email', async (c) => {
   }
 });
 
+// 获取创建邮箱用的工作量证明挑战，required 表示当前IP创建邮箱时是否必须提交
+app.get('/api/challenge', async (c) => {
+  try {
+    const ip = c.req.header('CF-Connecting-IP') || 'unknown';
+    const required = await isProofOfWorkRequired(c.env, ip);
+    const challenge = await createChallenge(c.env, ip);
+    
+    return c.json({ success: true, required, challenge });
+  } catch (error) {
+    console.error('生成工作量证明挑战失败:', error);
+    return c.json({ 
+      success: false, 
+      error: '生成工作量证明挑战失败',
+      message: error instanceof Error ? error.message : String(error)
+    }, 500);
+  }
+});
+
 // 创建邮箱
 app.post('/api/mailboxes', async (c) => {
   try {
@@ -158,28 +522,112 @@ app.post('/api/mailboxes', async (c) => {
       return c.json({ success: false, error: '无效的邮箱地址' }, 400);
     }
     
-    const expiresInHours = 24; // 固定24小时有效期
+    if (body.domain && typeof body.domain !== 'string') {
+      return c.json({ success: false, error: '无效的邮箱域名' }, 400);
+    }
+    
+    // 确定邮箱域名，未指定时使用默认域名
+    const domains = getEmailDomains(c.env);
+    if (domains.length === 0) {
+      return c.json({ success: false, error: '未配置收件域名' }, 500);
+    }
+    
+    const domain = body.domain ? body.domain.trim().toLowerCase() : domains[0];
+    if (!domains.includes(domain)) {
+      return c.json({ success: false, error: '不支持的邮箱域名' }, 400);
+    }
+    
+    // 确定有效期，兼容旧客户端传入的 expiresInHours
+    const lifetime = getMailboxLifetimeConfig(c.env);
+    const requestedMinutes = body.expiresInMinutes ?? (body.expiresInHours !== undefined ? Number(body.expiresInHours) * 60 : undefined);
+    const expiresInMinutes = requestedMinutes === undefined ? lifetime.defaultMinutes : Number(requestedMinutes);
+    
+    if (!Number.isFinite(expiresInMinutes) || expiresInMinutes < lifetime.minMinutes || expiresInMinutes > lifetime.maxMinutes) {
+      return c.json({ 
+        success: false, 
+        error: `邮箱有效期必须在 ${lifetime.minMinutes} 到 ${lifetime.maxMinutes} 分钟之间` 
+      }, 400);
+    }
+    
+    // 邮件保留策略，未指定时保留到邮箱过期
+    const retention = body.retention === undefined ? undefined : parseRetention(body.retention);
+    if (retention === null) {
+      return c.json({ success: false, error: '无效的邮件保留策略' }, 400);
+    }
+    
+    // 未指定用户名时的地址生成方式，未指定时使用配置的默认方式
+    const addressConfig = getAddressGeneratorConfig(c.env);
+    const style = body.style === undefined ? addressConfig.style : parseAddressStyle(body.style);
+    if (!style) {
+      return c.json({ success: false, error: '无效的地址生成方式' }, 400);
+    }
+    
+    const length = body.length === undefined ? addressConfig.length : Number(body.length);
+    if (!Number.isInteger(length) || length < ADDRESS_LENGTH_RANGE.min || length > ADDRESS_LENGTH_RANGE.max) {
+      return c.json({ 
+        success: false, 
+        error: `地址长度必须在 ${ADDRESS_LENGTH_RANGE.min} 到 ${ADDRESS_LENGTH_RANGE.max} 之间` 
+      }, 400);
+    }
+    
+    const prefix = typeof body.prefix === 'string' ? body.prefix.trim().toLowerCase() : '';
+    if (!body.address && style === 'prefix' && !isValidAddressPrefix(prefix)) {
+      return c.json({ success: false, error: '无效的地址前缀' }, 400);
+    }
     
     // 获取客户端IP
     const ip = c.req.header('CF-Connecting-IP') || 'unknown';
     
-    // 生成或使用提供的地址
-    const address = body.address || generateRandomAddress();
+    // 使用提供的用户名时先检查格式
+    const localPart = body.address ? body.address.trim().toLowerCase() : null;
+    if (localPart !== null && !isValidLocalPart(localPart)) {
+      return c.json({ success: false, error: '无效的邮箱地址' }, 400);
+    }
+    
+    // 同一IP创建的邮箱较多时要求提交工作量证明
+    if (await isProofOfWorkRequired(c.env, ip)) {
+      const powError = await verifyProofOfWork(c.env, ip, body.pow);
+      if (powError) {
+        return c.json({ success: false, error: powError, powRequired: true }, 428);
+      }
+    }
     
-    // 检查邮箱是否已存在
-    const existingMailbox = await getMailbox(c.env.DB, address);
-    if (existingMailbox) {
-      return c.json({ success: false, error: '邮箱地址已存在' }, 400);
+    // 占用创建频率名额并检查同时有效的邮箱数量
+    const limit = await reserveMailboxCreation(c.env, ip);
+    if (!limit.allowed) {
+      c.header('Retry-After', String(limit.retryAfter));
+      return c.json({ success: false, error: limit.reason, retryAfter: limit.retryAfter }, 429);
     }
     
-    // 创建邮箱
-    const mailbox = await createMailbox(c.env.DB, {
-      address,
-      expiresInHours,
+    // 生成访问令牌，明文只在创建时返回一次
+    const token = generateAccessToken();
+    const params = {
+      domain,
+      expiresInMinutes,
       ipAddress: ip,
-    });
+      tokenHash: await hashToken(token),
+      retention,
+    };
+    
+    // 使用提供的用户名，或生成随机地址（冲突时自动重试）
+    // 地址已被占用时不释放名额，避免借此无限制地探测地址是否存在；只有创建出错时才释放
+    let mailbox: Mailbox | null;
+    try {
+      mailbox = localPart !== null
+        ? await createMailboxIfAvailable(c.env.DB, { ...params, address: `${localPart}@${domain}` })
+        : await createMailboxWithGeneratedAddress(c.env.DB, { style, length, prefix }, params);
+    } catch (error) {
+      await releaseMailboxCreation(c.env, limit.eventIds);
+      throw error;
+    }
+    
+    if (!mailbox) {
+      return localPart !== null
+        ? c.json({ success: false, error: '邮箱地址已存在' }, 400)
+        : c.json({ success: false, error: '无法生成未被使用的邮箱地址，请重试' }, 409);
+    }
     
-    return c.json({ success: true, mailbox });
+    return c.json({ success: true, mailbox, token });
   } catch (error) {
     console.error('创建邮箱失败:', error);
     return c.json({ 
@@ -193,14 +641,19 @@ app.post('/api/mailboxes', async (c) => {
 // 获取邮箱信息
 app.get('/api/mailboxes/:address', async (c) => {
   try {
-    const address = c.req.param('address');
+    const address = c.req.param('address').toLowerCase();
     const mailbox = await getMailbox(c.env.DB, address);
     
     if (!mailbox) {
       return c.json({ success: false, error: '邮箱不存在' }, 404);
     }
     
-    return c.json({ success: true, mailbox });
+    const denied = await authorizeMailbox(c, mailbox.id);
+    if (denied) return denied;
+    
+    const usage = await getMailboxQuotaUsage(c.env.DB, getQuotaConfig(c.env), mailbox.id);
+    
+    return c.json({ success: true, mailbox, usage });
   } catch (error) {
     console.error('获取邮箱失败:', error);
     return c.json({ 
@@ -211,156 +664,967 @@ app.get('/api/mailboxes/:address', async (c) => {
   }
 });
 
-// 删除邮箱
-app.delete('/api/mailboxes/:address', async (c) => {
+// 延长邮箱有效期
+app.post('/api/mailboxes/:address/extend', async (c) => {
   try {
-    const address = c.req.param('address');
-    await deleteMailbox(c.env.DB, address);
+    const address = c.req.param('address').toLowerCase();
+    const mailbox = await getMailbox(c.env.DB, address);
     
-    return c.json({ success: true });
+    if (!mailbox) {
+      return c.json({ success: false, error: '邮箱不存在' }, 404);
+    }
+    
+    const denied = await authorizeMailbox(c, mailbox.id);
+    if (denied) return denied;
+    
+    // 请求体可以为空，此时按默认有效期延长
+    const body = await c.req.json().catch(() => ({})) as { minutes?: number };
+    const lifetime = getMailboxLifetimeConfig(c.env);
+    const minutes = body.minutes === undefined ? lifetime.defaultMinutes : Number(body.minutes);
+    
+    if (!Number.isFinite(minutes) || minutes <= 0) {
+      return c.json({ success: false, error: '无效的延长时间' }, 400);
+    }
+    
+    // 延长后的有效期不能超过从现在起的最长有效期，已达上限时保持不变
+    const now = getCurrentTimestamp();
+    const cappedExpiresAt = Math.min(mailbox.expiresAt + Math.round(minutes * 60), now + lifetime.maxMinutes * 60);
+    const expiresAt = Math.max(mailbox.expiresAt, cappedExpiresAt);
+    
+    if (expiresAt > mailbox.expiresAt) {
+      await updateMailboxExpiry(c.env.DB, mailbox.id, expiresAt);
+    }
+    
+    return c.json({ success: true, mailbox: { ...mailbox, expiresAt } });
   } catch (error) {
-    console.error('删除邮箱失败:', error);
+    console.error('延长邮箱有效期失败:', error);
     return c.json({ 
       success: false, 
-      error: '删除邮箱失败',
+      error: '延长邮箱有效期失败',
       message: error instanceof Error ? error.message : String(error)
     }, 500);
   }
 });
 
-// 获取邮件列表
-app.get('/api/mailboxes/:address/emails', async (c) => {
+// 更新邮箱的邮件保留策略
+app.put('/api/mailboxes/:address/retention', async (c) => {
   try {
-    const address = c.req.param('address');
+    const address = c.req.param('address').toLowerCase();
     const mailbox = await getMailbox(c.env.DB, address);
     
     if (!mailbox) {
       return c.json({ success: false, error: '邮箱不存在' }, 404);
     }
     
-    const emails = await getEmails(c.env.DB, mailbox.id);
+    const denied = await authorizeMailbox(c, mailbox.id);
+    if (denied) return denied;
+    
+    const body = await c.req.json().catch(() => null);
+    const retention = parseRetention(body);
+    if (!retention) {
+      return c.json({ success: false, error: '无效的邮件保留策略' }, 400);
+    }
+    
+    await updateMailboxRetention(c.env.DB, mailbox.id, retention);
     
-    return c.json({ success: true, emails });
+    return c.json({ success: true, mailbox: { ...mailbox, retention } });
   } catch (error) {
-    console.error('获取邮件列表失败:', error);
+    console.error('更新邮件保留策略失败:', error);
     return c.json({ 
       success: false, 
-      error: '获取邮件列表失败',
+      error: '更新邮件保留策略失败',
       message: error instanceof Error ? error.message : String(error)
     }, 500);
   }
 });
 
-// 获取邮件详情
-app.get('/api/emails/:id', async (c) => {
+// 获取邮箱的发件人规则
+app.get('/api/mailboxes/:address/senders', async (c) => {
   try {
-    const id = c.req.param('id');
-    const email = await getEmail(c.env.DB, id);
+    const address = c.req.param('address').toLowerCase();
+    const mailbox = await getMailbox(c.env.DB, address);
     
-    if (!email) {
-      return c.json({ success: false, error: '邮件不存在' }, 404);
+    if (!mailbox) {
+      return c.json({ success: false, error: '邮箱不存在' }, 404);
     }
     
-    return c.json({ success: true, email });
+    const denied = await authorizeMailbox(c, mailbox.id);
+    if (denied) return denied;
+    
+    const rules = await getSenderRules(c.env.DB, mailbox.id);
+    
+    return c.json({ success: true, rules });
   } catch (error) {
-    console.error('获取邮件详情失败:', error);
+    console.error('获取发件人规则失败:', error);
     return c.json({ 
       success: false, 
-      error: '获取邮件详情失败',
+      error: '获取发件人规则失败',
       message: error instanceof Error ? error.message : String(error)
     }, 500);
   }
 });
 
-// 获取邮件的附件列表
-app.get('/api/emails/:id/attachments', async (c) => {
+// 添加发件人规则，例如屏蔽 news@example.com、example.com 或 *@*.example.com
+// 存在白名单规则时，邮箱只接收白名单中的发件人
+app.post('/api/mailboxes/:address/senders', async (c) => {
   try {
-    const id = c.req.param('id');
+    const address = c.req.param('address').toLowerCase();
+    const mailbox = await getMailbox(c.env.DB, address);
     
-    // 检查邮件是否存在
-    const email = await getEmail(c.env.DB, id);
-    if (!email) {
-      return c.json({ success: false, error: '邮件不存在' }, 404);
+    if (!mailbox) {
+      return c.json({ success: false, error: '邮箱不存在' }, 404);
     }
     
-    // 获取附件列表
-    const attachments = await getAttachments(c.env.DB, id);
+    const denied = await authorizeMailbox(c, mailbox.id);
+    if (denied) return denied;
     
-    return c.json({ success: true, attachments });
+    const body = await c.req.json().catch(() => ({})) as { pattern?: unknown; action?: unknown };
+    const pattern = typeof body.pattern === 'string' ? normalizeSenderPattern(body.pattern) : '';
+    const action = body.action === undefined ? 'block' : body.action;
+    
+    if (!isValidSenderPattern(pattern)) {
+      return c.json({ success: false, error: '无效的发件人规则' }, 400);
+    }
+    
+    if (action !== 'allow' && action !== 'block') {
+      return c.json({ success: false, error: 'action 必须是 allow 或 block' }, 400);
+    }
+    
+    const rules = await getSenderRules(c.env.DB, mailbox.id);
+    if (rules.length >= MAX_SENDER_RULES && !rules.some(rule => rule.pattern === pattern)) {
+      return c.json({ success: false, error: `每个邮箱最多添加 ${MAX_SENDER_RULES} 条发件人规则` }, 400);
+    }
+    
+    const rule = await saveSenderRule(c.env.DB, mailbox.id, action as SenderRuleAction, pattern);
+    
+    return c.json({ success: true, rule });
   } catch (error) {
-    console.error('获取附件列表失败:', error);
+    console.error('添加发件人规则失败:', error);
     return c.json({ 
       success: false, 
-      error: '获取附件列表失败',
+      error: '添加发件人规则失败',
       message: error instanceof Error ? error.message : String(error)
     }, 500);
   }
 });
 
-// 获取附件详情
-app.get('/api/attachments/:id', async (c) => {
+// 删除发件人规则
+app.delete('/api/mailboxes/:address/senders/:id', async (c) => {
   try {
-    const id = c.req.param('id');
-    const attachment = await getAttachment(c.env.DB, id);
+    const address = c.req.param('address').toLowerCase();
+    const mailbox = await getMailbox(c.env.DB, address);
     
-    if (!attachment) {
-      return c.json({ success: false, error: '附件不存在' }, 404);
+    if (!mailbox) {
+      return c.json({ success: false, error: '邮箱不存在' }, 404);
     }
     
-    // 检查是否需要直接返回附件内容
-    const download = c.req.query('download') === 'true';
+    const denied = await authorizeMailbox(c, mailbox.id);
+    if (denied) return denied;
     
-    if (download) {
-      // 将Base64内容转换为二进制
-      const binaryContent = atob(attachment.content);
-      const bytes = new Uint8Array(binaryContent.length);
-      for (let i = 0; i < binaryContent.length; i++) {
-        bytes[i] = binaryContent.charCodeAt(i);
-      }
-      
-      // 设置响应头
-      c.header('Content-Type', attachment.mimeType);
-      c.header('Content-Disposition', `attachment; filename="${encodeURIComponent(attachment.filename)}"`);
-      
-      return c.body(bytes);
+    const deleted = await deleteSenderRule(c.env.DB, mailbox.id, c.req.param('id'));
+    if (!deleted) {
+      return c.json({ success: false, error: '发件人规则不存在' }, 404);
     }
     
-    // 返回附件信息（不包含内容，避免响应过大）
+    return c.json({ success: true });
+  } catch (error) {
+    console.error('删除发件人规则失败:', error);
     return c.json({ 
-      success: true, 
-      attachment: {
-        id: attachment.id,
-        emailId: attachment.emailId,
-        filename: attachment.filename,
-        mimeType: attachment.mimeType,
-        size: attachment.size,
-        createdAt: attachment.createdAt,
-        isLarge: attachment.isLarge,
-        chunksCount: attachment.chunksCount
-      }
-    });
+      success: false, 
+      error: '删除发件人规则失败',
+      message: error instanceof Error ? error.message : String(error)
+    }, 500);
+  }
+});
+
+// 获取邮箱的通配规则
+app.get('/api/mailboxes/:address/patterns', async (c) => {
+  try {
+    const address = c.req.param('address').toLowerCase();
+    const mailbox = await getMailbox(c.env.DB, address);
+    
+    if (!mailbox) {
+      return c.json({ success: false, error: '邮箱不存在' }, 404);
+    }
+    
+    const denied = await authorizeMailbox(c, mailbox.id);
+    if (denied) return denied;
+    
+    const patterns = await getMailboxPatterns(c.env.DB, mailbox.id);
+    
+    return c.json({ success: true, patterns });
   } catch (error) {
-    console.error('获取附件详情失败:', error);
+    console.error('获取通配规则失败:', error);
     return c.json({ 
       success: false, 
-      error: '获取附件详情失败',
+      error: '获取通配规则失败',
       message: error instanceof Error ? error.message : String(error)
     }, 500);
   }
 });
 
-// 删除邮件
-app.delete('/api/emails/:id', async (c) => {
+// 添加通配规则，例如 build-* 接收 build-42@ 等地址的邮件
+app.post('/api/mailboxes/:address/patterns', async (c) => {
   try {
-    const id = c.req.param('id');
-    await deleteEmail(c.env.DB, id);
+    const address = c.req.param('address').toLowerCase();
+    const mailbox = await getMailbox(c.env.DB, address);
+    
+    if (!mailbox) {
+      return c.json({ success: false, error: '邮箱不存在' }, 404);
+    }
+    
+    const denied = await authorizeMailbox(c, mailbox.id);
+    if (denied) return denied;
+    
+    const body = await c.req.json().catch(() => ({})) as { pattern?: unknown };
+    const pattern = typeof body.pattern === 'string' ? body.pattern.trim().toLowerCase() : '';
+    
+    if (!isValidAddressPattern(pattern)) {
+      return c.json({ success: false, error: '无效的通配规则' }, 400);
+    }
+    
+    const patterns = await getMailboxPatterns(c.env.DB, mailbox.id);
+    if (patterns.length >= MAX_MAILBOX_PATTERNS) {
+      return c.json({ success: false, error: `每个邮箱最多添加 ${MAX_MAILBOX_PATTERNS} 条通配规则` }, 400);
+    }
+    
+    if (await isMailboxPatternTaken(c.env.DB, mailbox.domain, pattern)) {
+      return c.json({ success: false, error: '通配规则已被占用' }, 400);
+    }
+    
+    const mailboxPattern = await addMailboxPattern(c.env.DB, mailbox, pattern);
+    
+    return c.json({ success: true, pattern: mailboxPattern });
+  } catch (error) {
+    console.error('添加通配规则失败:', error);
+    return c.json({ 
+      success: false, 
+      error: '添加通配规则失败',
+      message: error instanceof Error ? error.message : String(error)
+    }, 500);
+  }
+});
+
+// 删除通配规则
+app.delete('/api/mailboxes/:address/patterns/:id', async (c) => {
+  try {
+    const address = c.req.param('address').toLowerCase();
+    const mailbox = await getMailbox(c.env.DB, address);
+    
+    if (!mailbox) {
+      return c.json({ success: false, error: '邮箱不存在' }, 404);
+    }
+    
+    const denied = await authorizeMailbox(c, mailbox.id);
+    if (denied) return denied;
+    
+    const deleted = await deleteMailboxPattern(c.env.DB, mailbox.id, c.req.param('id'));
+    if (!deleted) {
+      return c.json({ success: false, error: '通配规则不存在' }, 404);
+    }
     
     return c.json({ success: true });
   } catch (error) {
-    console.error('删除邮件失败:', error);
+    console.error('删除通配规则失败:', error);
     return c.json({ 
       success: false, 
-      error: '删除邮件失败',
+      error: '删除通配规则失败',
+      message: error instanceof Error ? error.message : String(error)
+    }, 500);
+  }
+});
+
+// 获取邮箱的 Webhook 列表
+app.get('/api/mailboxes/:address/webhooks', async (c) => {
+  try {
+    const address = c.req.param('address').toLowerCase();
+    const mailbox = await getMailbox(c.env.DB, address);
+    
+    if (!mailbox) {
+      return c.json({ success: false, error: '邮箱不存在' }, 404);
+    }
+    
+    const denied = await authorizeMailbox(c, mailbox.id);
+    if (denied) return denied;
+    
+    const webhooks = await getWebhooks(c.env.DB, mailbox.id);
+    
+    return c.json({ success: true, webhooks });
+  } catch (error) {
+    console.error('获取 Webhook 列表失败:', error);
+    return c.json({ 
+      success: false, 
+      error: '获取 Webhook 列表失败',
+      message: error instanceof Error ? error.message : String(error)
+    }, 500);
+  }
+});
+
+// 注册 Webhook，新邮件保存后会推送到该地址
+app.post('/api/mailboxes/:address/webhooks', async (c) => {
+  try {
+    const address = c.req.param('address').toLowerCase();
+    const mailbox = await getMailbox(c.env.DB, address);
+    
+    if (!mailbox) {
+      return c.json({ success: false, error: '邮箱不存在' }, 404);
+    }
+    
+    const denied = await authorizeMailbox(c, mailbox.id);
+    if (denied) return denied;
+    
+    const body = await c.req.json().catch(() => ({})) as { url?: unknown };
+    const url = typeof body.url === 'string' ? body.url.trim() : '';
+    
+    if (!isValidWebhookUrl(url)) {
+      return c.json({ success: false, error: '无效的 Webhook 地址' }, 400);
+    }
+    
+    const webhooks = await getWebhooks(c.env.DB, mailbox.id);
+    if (webhooks.length >= MAX_MAILBOX_WEBHOOKS) {
+      return c.json({ success: false, error: `每个邮箱最多注册 ${MAX_MAILBOX_WEBHOOKS} 个 Webhook` }, 400);
+    }
+    
+    // 签名密钥明文只在创建时返回一次
+    const secret = generateAccessToken();
+    const webhook = await createWebhook(c.env.DB, mailbox.id, url, secret);
+    
+    return c.json({ success: true, webhook, secret });
+  } catch (error) {
+    console.error('注册 Webhook 失败:', error);
+    return c.json({ 
+      success: false, 
+      error: '注册 Webhook 失败',
+      message: error instanceof Error ? error.message : String(error)
+    }, 500);
+  }
+});
+
+// 删除 Webhook
+app.delete('/api/mailboxes/:address/webhooks/:id', async (c) => {
+  try {
+    const address = c.req.param('address').toLowerCase();
+    const mailbox = await getMailbox(c.env.DB, address);
+    
+    if (!mailbox) {
+      return c.json({ success: false, error: '邮箱不存在' }, 404);
+    }
+    
+    const denied = await authorizeMailbox(c, mailbox.id);
+    if (denied) return denied;
+    
+    const deleted = await deleteWebhook(c.env.DB, mailbox.id, c.req.param('id'));
+    if (!deleted) {
+      return c.json({ success: false, error: 'Webhook 不存在' }, 404);
+    }
+    
+    return c.json({ success: true });
+  } catch (error) {
+    console.error('删除 Webhook 失败:', error);
+    return c.json({ 
+      success: false, 
+      error: '删除 Webhook 失败',
+      message: error instanceof Error ? error.message : String(error)
+    }, 500);
+  }
+});
+
+// 获取 Webhook 的投递记录
+app.get('/api/mailboxes/:address/webhooks/:id/deliveries', async (c) => {
+  try {
+    const address = c.req.param('address').toLowerCase();
+    const mailbox = await getMailbox(c.env.DB, address);
+    
+    if (!mailbox) {
+      return c.json({ success: false, error: '邮箱不存在' }, 404);
+    }
+    
+    const denied = await authorizeMailbox(c, mailbox.id);
+    if (denied) return denied;
+    
+    const webhookId = c.req.param('id');
+    const webhooks = await getWebhooks(c.env.DB, mailbox.id);
+    if (!webhooks.some(webhook => webhook.id === webhookId)) {
+      return c.json({ success: false, error: 'Webhook 不存在' }, 404);
+    }
+    
+    const limit = Number(c.req.query('limit') || MAX_WEBHOOK_DELIVERIES);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_WEBHOOK_DELIVERIES) {
+      return c.json({ success: false, error: `limit 必须是 1 到 ${MAX_WEBHOOK_DELIVERIES} 之间的整数` }, 400);
+    }
+    
+    const deliveries = await getWebhookDeliveries(c.env.DB, webhookId, limit);
+    
+    return c.json({ success: true, deliveries });
+  } catch (error) {
+    console.error('获取 Webhook 投递记录失败:', error);
+    return c.json({ 
+      success: false, 
+      error: '获取 Webhook 投递记录失败',
+      message: error instanceof Error ? error.message : String(error)
+    }, 500);
+  }
+});
+
+// 删除邮箱
+app.delete('/api/mailboxes/:address', async (c) => {
+  try {
+    const address = c.req.param('address').toLowerCase();
+    const mailbox = await getMailbox(c.env.DB, address);
+    
+    if (!mailbox) {
+      return c.json({ success: false, error: '邮箱不存在' }, 404);
+    }
+    
+    const denied = await authorizeMailbox(c, mailbox.id);
+    if (denied) return denied;
+    
+    await deleteMailbox(c.env.DB, address);
+    
+    return c.json({ success: true });
+  } catch (error) {
+    console.error('删除邮箱失败:', error);
+    return c.json({ 
+      success: false, 
+      error: '删除邮箱失败',
+      message: error instanceof Error ? error.message : String(error)
+    }, 500);
+  }
+});
+
+// 获取邮件列表
+app.get('/api/mailboxes/:address/emails', async (c) => {
+  try {
+    const address = c.req.param('address').toLowerCase();
+    const mailbox = await getMailbox(c.env.DB, address);
+    
+    if (!mailbox) {
+      return c.json({ success: false, error: '邮箱不存在' }, 404);
+    }
+    
+    const denied = await authorizeMailbox(c, mailbox.id);
+    if (denied) return denied;
+    
+    const query = parseEmailListQuery(c);
+    if ('error' in query) {
+      return c.json({ success: false, error: query.error }, 400);
+    }
+    
+    const { emails, nextCursor } = await getEmails(c.env.DB, mailbox.id, query.options);
+    
+    return c.json({ success: true, emails, nextCursor });
+  } catch (error) {
+    console.error('获取邮件列表失败:', error);
+    return c.json({ 
+      success: false, 
+      error: '获取邮件列表失败',
+      message: error instanceof Error ? error.message : String(error)
+    }, 500);
+  }
+});
+
+// 获取最近一封邮件中的验证码和验证链接
+app.get('/api/mailboxes/:address/latest-code', async (c) => {
+  try {
+    const address = c.req.param('address').toLowerCase();
+    const mailbox = await getMailbox(c.env.DB, address);
+    
+    if (!mailbox) {
+      return c.json({ success: false, error: '邮箱不存在' }, 404);
+    }
+    
+    const denied = await authorizeMailbox(c, mailbox.id);
+    if (denied) return denied;
+    
+    const verification = await getLatestVerification(c.env.DB, mailbox.id);
+    if (!verification) {
+      return c.json({ success: false, error: '没有找到验证码' }, 404);
+    }
+    
+    return c.json({ success: true, ...verification });
+  } catch (error) {
+    console.error('获取验证码失败:', error);
+    return c.json({ 
+      success: false, 
+      error: '获取验证码失败',
+      message: error instanceof Error ? error.message : String(error)
+    }, 500);
+  }
+});
+
+// 等待下一封符合条件的邮件（长轮询），超时返回 204
+app.get('/api/mailboxes/:address/emails/wait', async (c) => {
+  try {
+    const address = c.req.param('address').toLowerCase();
+    const mailbox = await getMailbox(c.env.DB, address);
+    
+    if (!mailbox) {
+      return c.json({ success: false, error: '邮箱不存在' }, 404);
+    }
+    
+    const denied = await authorizeMailbox(c, mailbox.id);
+    if (denied) return denied;
+    
+    const { since, timeout, subject, from } = c.req.query();
+    
+    const timeoutSeconds = timeout === undefined ? DEFAULT_WAIT_TIMEOUT : Number(timeout);
+    if (!Number.isInteger(timeoutSeconds) || timeoutSeconds < 0 || timeoutSeconds > MAX_WAIT_TIMEOUT) {
+      return c.json({ success: false, error: `timeout 必须是 0 到 ${MAX_WAIT_TIMEOUT} 之间的整数` }, 400);
+    }
+    
+    // 未指定 since 时只等待请求之后收到的邮件
+    const sinceTimestamp = since === undefined ? getCurrentTimestamp() : Number(since);
+    if (!Number.isFinite(sinceTimestamp)) {
+      return c.json({ success: false, error: '无效的 since 参数' }, 400);
+    }
+    
+    const matchSubject = parseSubjectMatcher(subject);
+    if (!matchSubject) {
+      return c.json({ success: false, error: '无效的主题正则表达式' }, 400);
+    }
+    
+    const deadline = Date.now() + timeoutSeconds * 1000;
+    const checkedIds = new Set<string>();
+    let checkFrom = sinceTimestamp;
+    let interval = MIN_WAIT_POLL_INTERVAL;
+    
+    while (true) {
+      // 只查询上次检查时最新邮件所在秒之后的邮件，已检查过的邮件直接跳过
+      let after: EmailListOptions['after'];
+      let latestReceivedAt = checkFrom;
+      
+      while (true) {
+        const page = await getEmails(c.env.DB, mailbox.id, { since: checkFrom, from: from || undefined, sort: 'asc', after, limit: MAX_EMAIL_PAGE_SIZE });
+        
+        for (const item of page.emails) {
+          if (checkedIds.has(item.id)) continue;
+          checkedIds.add(item.id);
+          
+          if (matchSubject(item.subject || '')) {
+            const email = await getEmail(c.env.DB, item.id);
+            if (email) {
+              return c.json({ success: true, email });
+            }
+          }
+        }
+        
+        const last = page.emails[page.emails.length - 1];
+        if (last) {
+          latestReceivedAt = last.receivedAt;
+          after = { receivedAt: last.receivedAt, id: last.id };
+        }
+        if (!page.nextCursor) break;
+      }
+      
+      checkFrom = latestReceivedAt;
+      
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        return c.body(null, 204);
+      }
+      
+      // 同一 isolate 内保存新邮件时会被提前唤醒，否则按退避间隔再查询数据库
+      await waitForNewEmail(mailbox.id, Math.min(interval, remaining));
+      interval = Math.min(interval * 2, MAX_WAIT_POLL_INTERVAL);
+    }
+  } catch (error) {
+    console.error('等待新邮件失败:', error);
+    return c.json({ 
+      success: false, 
+      error: '等待新邮件失败',
+      message: error instanceof Error ? error.message : String(error)
+    }, 500);
+  }
+});
+
+// 全文搜索邮件
+app.get('/api/mailboxes/:address/search', async (c) => {
+  try {
+    const address = c.req.param('address').toLowerCase();
+    const mailbox = await getMailbox(c.env.DB, address);
+    
+    if (!mailbox) {
+      return c.json({ success: false, error: '邮箱不存在' }, 404);
+    }
+    
+    const denied = await authorizeMailbox(c, mailbox.id);
+    if (denied) return denied;
+    
+    const query = (c.req.query('q') || '').trim();
+    if (!query) {
+      return c.json({ success: false, error: '搜索词不能为空' }, 400);
+    }
+    
+    const limit = Number(c.req.query('limit') || MAX_EMAIL_PAGE_SIZE);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_EMAIL_PAGE_SIZE) {
+      return c.json({ success: false, error: `limit 必须是 1 到 ${MAX_EMAIL_PAGE_SIZE} 之间的整数` }, 400);
+    }
+    
+    const results = await searchEmails(c.env.DB, mailbox.id, query, limit);
+    
+    return c.json({ success: true, results });
+  } catch (error) {
+    console.error('搜索邮件失败:', error);
+    return c.json({ 
+      success: false, 
+      error: '搜索邮件失败',
+      message: error instanceof Error ? error.message : String(error)
+    }, 500);
+  }
+});
+
+// 获取邮件详情
+app.get('/api/emails/:id', async (c) => {
+  try {
+    const id = c.req.param('id');
+    const mailboxId = await getEmailMailboxId(c.env.DB, id);
+    
+    if (!mailboxId) {
+      return c.json({ success: false, error: '邮件不存在' }, 404);
+    }
+    
+    const denied = await authorizeMailbox(c, mailboxId);
+    if (denied) return denied;
+    
+    const render = c.req.query('render');
+    if (render !== undefined && render !== 'safe') {
+      return c.json({ success: false, error: 'render 只能是 safe' }, 400);
+    }
+    
+    const remote = c.req.query('remote');
+    if (remote !== undefined && remote !== 'allow') {
+      return c.json({ success: false, error: 'remote 只能是 allow' }, 400);
+    }
+    
+    const email = await getEmail(c.env.DB, id);
+    
+    if (!email) {
+      return c.json({ success: false, error: '邮件不存在' }, 404);
+    }
+    
+    // 只有查看邮件详情才算阅读（等待新邮件等接口不会标记已读）
+    await markEmailRead(c.env.DB, id);
+    email.isRead = true;
+    
+    // 安全渲染模式：返回清理后的 HTML 以及被删除的内容，远程图片默认阻止，允许时经签名代理加载
+    if (render === 'safe') {
+      if (email.htmlContent) {
+        const secret = getSigningSecret(c.env);
+        const origin = new URL(c.req.url).origin;
+        const sanitized = await sanitizeHtml(email.htmlContent, {
+          rewriteRemoteImage: remote === 'allow' && secret
+            ? (url) => buildProxyUrl(origin, secret, url)
+            : undefined,
+          // 图片无法携带请求头，内联资源使用限时签名地址；未配置签名密钥时只能通过 Authorization 头获取
+          rewriteContentId: async (contentId) => secret
+            ? buildInlineUrl(origin, secret, id, decodeContentId(contentId))
+            : `${origin}/api/emails/${id}/cid/${encodeURIComponent(decodeContentId(contentId))}`,
+        });
+        email.htmlContent = sanitized.html;
+        email.stripped = sanitized.stripped;
+        email.remoteContent = sanitized.remoteContent;
+      } else {
+        email.stripped = [];
+        email.remoteContent = { count: 0, blocked: false };
+      }
+    }
+    
+    return c.json({ success: true, email });
+  } catch (error) {
+    console.error('获取邮件详情失败:', error);
+    return c.json({ 
+      success: false, 
+      error: '获取邮件详情失败',
+      message: error instanceof Error ? error.message : String(error)
+    }, 500);
+  }
+});
+
+// 下载原始邮件（.eml）
+app.get('/api/emails/:id/raw', async (c) => {
+  try {
+    const id = c.req.param('id');
+    const mailboxId = await getEmailMailboxId(c.env.DB, id);
+    
+    if (!mailboxId) {
+      return c.json({ success: false, error: '邮件不存在' }, 404);
+    }
+    
+    const denied = await authorizeMailbox(c, mailboxId, true);
+    if (denied) return denied;
+    
+    const raw = await getRawMessage(c.env.DB, id);
+    
+    if (!raw) {
+      return c.json({ success: false, error: '原始邮件不存在' }, 404);
+    }
+    
+    c.header('Content-Type', 'message/rfc822');
+    c.header('Content-Disposition', `attachment; filename="${id}.eml"`);
+    
+    return c.body(base64ToBytes(raw));
+  } catch (error) {
+    console.error('获取原始邮件失败:', error);
+    return c.json({ 
+      success: false, 
+      error: '获取原始邮件失败',
+      message: error instanceof Error ? error.message : String(error)
+    }, 500);
+  }
+});
+
+// 获取邮件的附件列表
+app.get('/api/emails/:id/attachments', async (c) => {
+  try {
+    const id = c.req.param('id');
+    
+    // 检查邮件是否存在
+    const mailboxId = await getEmailMailboxId(c.env.DB, id);
+    if (!mailboxId) {
+      return c.json({ success: false, error: '邮件不存在' }, 404);
+    }
+    
+    const denied = await authorizeMailbox(c, mailboxId);
+    if (denied) return denied;
+    
+    // 获取附件列表，默认不包含正文引用的内联资源
+    const includeInline = c.req.query('inline') === 'true';
+    const attachments = await getAttachments(c.env.DB, id, includeInline);
+    
+    return c.json({ success: true, attachments });
+  } catch (error) {
+    console.error('获取附件列表失败:', error);
+    return c.json({ 
+      success: false, 
+      error: '获取附件列表失败',
+      message: error instanceof Error ? error.message : String(error)
+    }, 500);
+  }
+});
+
+// 将邮件的所有附件打包为 ZIP 下载（流式生成，不含正文引用的内联资源）
+app.get('/api/emails/:id/attachments.zip', async (c) => {
+  try {
+    const id = c.req.param('id');
+    const mailboxId = await getEmailMailboxId(c.env.DB, id);
+    
+    if (!mailboxId) {
+      return c.json({ success: false, error: '邮件不存在' }, 404);
+    }
+    
+    const denied = await authorizeMailbox(c, mailboxId, true);
+    if (denied) return denied;
+    
+    const attachments = await getAttachments(c.env.DB, id, false);
+    
+    if (attachments.length === 0) {
+      return c.json({ success: false, error: '邮件没有附件' }, 404);
+    }
+    
+    // 同名附件添加序号，避免解压时互相覆盖
+    const usedNames = new Set<string>();
+    const entries = attachments.map(attachment => ({
+      name: dedupeFilename(attachment.filename, usedNames),
+      modifiedAt: attachment.createdAt,
+      open: async () => {
+        const detail = await getAttachment(c.env.DB, attachment.id);
+        return detail ? readAttachment(c.env, detail) : null;
+      },
+    }));
+    
+    return new Response(createZipStream(entries), {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': buildContentDisposition('attachment', `attachments-${id}.zip`),
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    console.error('打包附件失败:', error);
+    return c.json({ 
+      success: false, 
+      error: '打包附件失败',
+      message: error instanceof Error ? error.message : String(error)
+    }, 500);
+  }
+});
+
+// 按 Content-ID 获取邮件正文引用的内联资源
+app.get('/api/emails/:id/cid/:contentId', async (c) => {
+  try {
+    const id = c.req.param('id');
+    const mailboxId = await getEmailMailboxId(c.env.DB, id);
+    
+    if (!mailboxId) {
+      return c.json({ success: false, error: '邮件不存在' }, 404);
+    }
+    
+    // 带签名的地址由邮件详情接口生成，无需访问令牌
+    const contentId = c.req.param('contentId');
+    const expires = c.req.query('expires');
+    const sig = c.req.query('sig');
+    if (expires !== undefined || sig !== undefined) {
+      const secret = getSigningSecret(c.env);
+      if (!secret || !expires || !sig || !(await verifyInlineSignature(secret, id, contentId, expires, sig))) {
+        return c.json({ success: false, error: '签名无效或已过期' }, 403);
+      }
+    } else {
+      const denied = await authorizeMailbox(c, mailboxId);
+      if (denied) return denied;
+    }
+    
+    const attachment = await getAttachmentByContentId(c.env.DB, id, contentId);
+    
+    if (!attachment) {
+      return c.json({ success: false, error: '内联资源不存在' }, 404);
+    }
+    
+    return await streamAttachment(c, attachment, 'inline');
+  } catch (error) {
+    console.error('获取内联资源失败:', error);
+    return c.json({ 
+      success: false, 
+      error: '获取内联资源失败',
+      message: error instanceof Error ? error.message : String(error)
+    }, 500);
+  }
+});
+
+// 获取附件详情
+app.get('/api/attachments/:id', async (c) => {
+  try {
+    const id = c.req.param('id');
+    const mailboxId = await getAttachmentMailboxId(c.env.DB, id);
+    
+    if (!mailboxId) {
+      return c.json({ success: false, error: '附件不存在' }, 404);
+    }
+    
+    // 检查是否需要直接返回附件内容，只有下载时接受 token 查询参数
+    const download = c.req.query('download') === 'true';
+    
+    const denied = await authorizeMailbox(c, mailboxId, download);
+    if (denied) return denied;
+    
+    const attachment = await getAttachment(c.env.DB, id);
+    
+    if (!attachment) {
+      return c.json({ success: false, error: '附件不存在' }, 404);
+    }
+    
+    if (download) {
+      // inline=true 用于页面内预览，只允许浏览器可安全显示的类型
+      const inline = c.req.query('inline') === 'true' && INLINE_PREVIEW_TYPES.test(attachment.mimeType);
+      return await streamAttachment(c, attachment, inline ? 'inline' : 'attachment');
+    }
+    
+    // 返回附件信息（不包含内容，避免响应过大）
+    return c.json({ 
+      success: true, 
+      attachment: {
+        id: attachment.id,
+        emailId: attachment.emailId,
+        filename: attachment.filename,
+        mimeType: attachment.mimeType,
+        size: attachment.size,
+        createdAt: attachment.createdAt,
+        isLarge: attachment.isLarge,
+        chunksCount: attachment.chunksCount
+      }
+    });
+  } catch (error) {
+    console.error('获取附件详情失败:', error);
+    return c.json({ 
+      success: false, 
+      error: '获取附件详情失败',
+      message: error instanceof Error ? error.message : String(error)
+    }, 500);
+  }
+});
+
+// 删除邮件
+app.delete('/api/emails/:id', async (c) => {
+  try {
+    const id = c.req.param('id');
+    const mailboxId = await getEmailMailboxId(c.env.DB, id);
+    
+    if (!mailboxId) {
+      return c.json({ success: false, error: '邮件不存在' }, 404);
+    }
+    
+    const denied = await authorizeMailbox(c, mailboxId);
+    if (denied) return denied;
+    
+    await deleteEmail(c.env.DB, id);
+    
+    return c.json({ success: true });
+  } catch (error) {
+    console.error('删除邮件失败:', error);
+    return c.json({ 
+      success: false, 
+      error: '删除邮件失败',
+      message: error instanceof Error ? error.message : String(error)
+    }, 500);
+  }
+});
+
+// 图片代理：只代理由本服务签名的地址，避免成为开放代理
+app.get('/api/proxy/image', async (c) => {
+  try {
+    const url = c.req.query('url');
+    const sig = c.req.query('sig');
+    
+    if (!url || !sig) {
+      return c.json({ success: false, error: '缺少 url 或 sig 参数' }, 400);
+    }
+    
+    const secret = getSigningSecret(c.env);
+    if (!secret) {
+      return c.json({ success: false, error: '图片代理未启用' }, 503);
+    }
+    
+    if (!(await verifyProxySignature(secret, url, sig))) {
+      return c.json({ success: false, error: '签名无效' }, 403);
+    }
+    
+    return await fetchProxiedImage(url);
+  } catch (error) {
+    if (error instanceof ImageProxyError) {
+      return c.json({ success: false, error: error.message }, error.status as 400 | 413 | 415 | 502);
+    }
+    console.error('代理图片失败:', error);
+    return c.json({ 
+      success: false, 
+      error: '代理图片失败',
+      message: error instanceof Error ? error.message : String(error)
+    }, 500);
+  }
+});
+
+// 查询拒收记录（需要管理员令牌）
+app.get('/api/admin/rejected-mails', async (c) => {
+  try {
+    const denied = authorizeAdmin(c);
+    if (denied) return denied;
+    
+    const limit = Number(c.req.query('limit') || 100);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_REJECTED_MAILS) {
+      return c.json({ success: false, error: `limit 必须是 1 到 ${MAX_REJECTED_MAILS} 之间的整数` }, 400);
+    }
+    
+    const rule = c.req.query('rule') as RejectionRule | undefined;
+    if (rule && !REJECTION_RULES.includes(rule)) {
+      return c.json({ success: false, error: '无效的拒收规则' }, 400);
+    }
+    
+    const rejections = await getRejectedMails(c.env.DB, limit, rule);
+    
+    return c.json({ success: true, rejections });
+  } catch (error) {
+    console.error('获取拒收记录失败:', error);
+    return c.json({ 
+      success: false, 
+      error: '获取拒收记录失败',
       message: error instanceof Error ? error.message : String(error)
     }, 500);
   }
@@ -0,0 +1,70 @@
+import { SenderRule } from './types';
+
+/**
+ * 规范化发件人规则：转为小写，并去掉域名规则开头的 @
+ * @param pattern 用户输入的规则
+ * @returns 规范化后的规则
+ */
+export function normalizeSenderPattern(pattern: string): string {
+  const normalized = pattern.trim().toLowerCase();
+  return normalized.startsWith('@') ? normalized.substring(1) : normalized;
+}
+
+/**
+ * 判断发件地址是否匹配规则
+ * @param address 发件地址（小写）
+ * @param pattern 发件人规则
+ * @returns 是否匹配
+ */
+export function matchesSenderPattern(address: string, pattern: string): boolean {
+  // 通配规则匹配完整地址，不含 @ 的通配规则只匹配域名
+  if (pattern.includes('*')) {
+    const regex = new RegExp(`^${pattern.split('*').map(escapeRegExp).join('.*')}$`);
+    return regex.test(pattern.includes('@') ? address : getDomain(address));
+  }
+  
+  if (pattern.includes('@')) {
+    return address === pattern;
+  }
+  
+  const domain = getDomain(address);
+  return domain === pattern || domain.endsWith(`.${pattern}`);
+}
+
+/**
+ * 根据邮箱的发件人规则判断是否接收邮件
+ * 命中白名单时接收；否则命中黑名单时拒绝；存在白名单规则时只接收白名单中的发件人
+ * @param rules 发件人规则
+ * @param senders 发件地址（信封发件人和 From 头）
+ * @returns 是否接收
+ */
+export function isSenderAllowed(rules: SenderRule[], senders: string[]): boolean {
+  if (rules.length === 0) return true;
+  
+  const addresses = senders.filter(Boolean).map(sender => sender.toLowerCase());
+  const matches = (rule: SenderRule) => addresses.some(address => matchesSenderPattern(address, rule.pattern));
+  
+  const allowRules = rules.filter(rule => rule.action === 'allow');
+  if (allowRules.some(matches)) return true;
+  if (rules.some(rule => rule.action === 'block' && matches(rule))) return false;
+  
+  return allowRules.length === 0;
+}
+
+/**
+ * 获取地址的域名部分
+ * @param address 邮件地址
+ * @returns 域名
+ */
+function getDomain(address: string): string {
+  return address.substring(address.lastIndexOf('@') + 1);
+}
+
+/**
+ * 转义正则表达式中的特殊字符
+ * @param value 字符串
+ * @returns 转义后的字符串
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,212 @@
+import { PrivacyReport, TrackerItem, CleanLink } from './types';
+
+// 常见的跟踪参数（utm_ 开头的参数另行判断）
+const TRACKING_PARAMS = new Set([
+  'mc_eid', 'mc_cid', 'fbclid', 'gclid', 'gclsrc', 'dclid', 'msclkid', 'yclid', 'igshid', 'twclid', 'ttclid', 'li_fat_id',
+  '_hsenc', '_hsmi', '__hstc', '__hssc', '__hsfp', 'hsctatracking', 'mkt_tok', 'oly_anon_id', 'oly_enc_id',
+  'vero_id', 'vero_conv', '_openstat', 'wickedid', 'ck_subscriber_id', 'sc_campaign', 's_cid', 'ml_subscriber', 'ml_subscriber_hash',
+]);
+
+// 跳转链接中保存目标地址的参数
+const REDIRECT_PARAMS = ['url', 'u', 'q', 'redirect', 'redirect_url', 'target', 'dest', 'destination', 'link', 'goto'];
+
+// 最多解开的跳转层数
+const MAX_REDIRECT_DEPTH = 3;
+
+// 每封邮件最多记录的跟踪器和链接数量
+const MAX_REPORT_ITEMS = 100;
+
+// 去除跟踪后的结果
+interface CleanUrlResult {
+  clean: string;
+  redirect: boolean;
+  params: string[];
+}
+
+/**
+ * 分析邮件 HTML 中的跟踪像素、跟踪参数和跳转链接
+ * @param html HTML内容
+ * @returns 隐私报告
+ */
+export async function analyzeTrackers(html: string): Promise<PrivacyReport> {
+  const trackers = new Map<string, TrackerItem>();
+  const links = new Map<string, CleanLink>();
+  
+  if (!html) {
+    return { trackers: [], links: [] };
+  }
+  
+  const addTracker = (item: TrackerItem) => {
+    const key = `${item.type}:${item.url}`;
+    if (!trackers.has(key) && trackers.size < MAX_REPORT_ITEMS) {
+      trackers.set(key, item);
+    }
+  };
+  
+  const rewriter = new HTMLRewriter()
+    .on('img[src]', {
+      element(element) {
+        const src = element.getAttribute('src')?.trim() || '';
+        const host = getHost(src);
+        if (!host) return;
+        
+        if (isTrackingPixel(element.getAttribute('width'), element.getAttribute('height'), element.getAttribute('style'))) {
+          addTracker({ type: 'pixel', url: src, host });
+          return;
+        }
+        
+        const { params } = cleanUrl(src);
+        if (params.length > 0) {
+          addTracker({ type: 'param', url: src, host, params });
+        }
+      },
+    })
+    .on('a[href]', {
+      element(element) {
+        const href = element.getAttribute('href')?.trim() || '';
+        const host = getHost(href);
+        if (!host) return;
+        
+        const { clean, redirect, params } = cleanUrl(href);
+        if (redirect) {
+          addTracker({ type: 'redirect', url: href, host });
+        }
+        if (params.length > 0) {
+          addTracker({ type: 'param', url: href, host, params });
+        }
+        if (clean !== href && !links.has(href) && links.size < MAX_REPORT_ITEMS) {
+          links.set(href, { original: href, clean });
+        }
+      },
+    });
+  
+  await rewriter.transform(new Response(html, {
+    headers: { 'Content-Type': 'text/html; charset=utf-8' },
+  })).text();
+  
+  return {
+    trackers: [...trackers.values()],
+    links: [...links.values()],
+  };
+}
+
+/**
+ * 判断图片是否为跟踪像素：尺寸不超过 1×1 或被隐藏
+ * @param width width 属性
+ * @param height height 属性
+ * @param style style 属性
+ * @returns 是否为跟踪像素
+ */
+export function isTrackingPixel(width: string | null, height: string | null, style: string | null): boolean {
+  const w = parseDimension(width) ?? parseDimension(getStyleValue(style, 'width'));
+  const h = parseDimension(height) ?? parseDimension(getStyleValue(style, 'height'));
+  
+  if (w !== null && h !== null && w <= 1 && h <= 1) return true;
+  
+  return /(^|;)\s*(display\s*:\s*none|visibility\s*:\s*hidden)/i.test(style || '');
+}
+
+/**
+ * 解开跳转链接并删除跟踪参数
+ * @param url 原始链接
+ * @returns 去除跟踪后的链接、是否为跳转链接以及被删除的参数
+ */
+export function cleanUrl(url: string): CleanUrlResult {
+  let current = url;
+  let redirect = false;
+  
+  for (let depth = 0; depth < MAX_REDIRECT_DEPTH; depth++) {
+    const target = unwrapRedirect(current);
+    if (!target) break;
+    current = target;
+    redirect = true;
+  }
+  
+  let parsed: URL;
+  try {
+    parsed = new URL(current);
+  } catch {
+    return { clean: url, redirect: false, params: [] };
+  }
+  
+  const params = [...new Set(parsed.searchParams.keys())].filter(isTrackingParam);
+  if (params.length === 0) {
+    return { clean: current, redirect, params };
+  }
+  
+  params.forEach(param => parsed.searchParams.delete(param));
+  return { clean: parsed.toString(), redirect, params };
+}
+
+/**
+ * 获取跳转链接的目标地址
+ * @param url 链接
+ * @returns 目标地址，不是跳转链接时返回 null
+ */
+function unwrapRedirect(url: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+  
+  for (const param of REDIRECT_PARAMS) {
+    const value = parsed.searchParams.get(param);
+    if (!value || !/^https?:\/\//i.test(value)) continue;
+    
+    // 指向同一站点的参数通常是正常的页面跳转，不算跟踪
+    const host = getHost(value);
+    if (host && host !== parsed.hostname.toLowerCase()) {
+      return value;
+    }
+  }
+  
+  return null;
+}
+
+/**
+ * 判断参数名是否为跟踪参数
+ * @param name 参数名
+ * @returns 是否为跟踪参数
+ */
+function isTrackingParam(name: string): boolean {
+  const lower = name.toLowerCase();
+  return lower.startsWith('utm_') || TRACKING_PARAMS.has(lower);
+}
+
+/**
+ * 获取 http(s) 链接的主机名
+ * @param url 链接
+ * @returns 主机名，不是 http(s) 链接时返回 null
+ */
+function getHost(url: string): string | null {
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:' ? parsed.hostname.toLowerCase() : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 从 style 属性中读取指定属性的值
+ * @param style style 属性
+ * @param property CSS 属性名
+ * @returns 属性值，不存在时返回 null
+ */
+function getStyleValue(style: string | null, property: string): string | null {
+  if (!style) return null;
+  const match = style.match(new RegExp(`(?:^|;)\\s*${property}\\s*:\\s*([^;]+)`, 'i'));
+  return match ? match[1] : null;
+}
+
+/**
+ * 解析以像素表示的尺寸
+ * @param value 尺寸，例如 1、1px
+ * @returns 像素值，无法解析时返回 null
+ */
+function parseDimension(value: string | null): number | null {
+  const match = value?.trim().match(/^(\d+(?:\.\d+)?)(px)?$/i);
+  return match ? parseFloat(match[1]) : null;
+}
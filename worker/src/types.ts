@@ -1,25 +1,178 @@
-import { D1Database } from '@cloudflare/workers-types';
+import { D1Database, R2Bucket } from '@cloudflare/workers-types';
 
 // 环境变量类型
 export interface Env {
   DB: D1Database;
+  EMAIL_DOMAINS: string; // 收件域名列表，逗号分隔，第一个为默认域名
+  MAILBOX_MIN_LIFETIME_MINUTES?: string; // 邮箱最短有效期（分钟）
+  MAILBOX_MAX_LIFETIME_MINUTES?: string; // 邮箱最长有效期（分钟）
+  MAILBOX_DEFAULT_LIFETIME_MINUTES?: string; // 邮箱默认有效期（分钟）
+  SUBADDRESS_SEPARATOR?: string; // 子地址分隔符（+ 或 -），为空时关闭子地址
+  SIGNING_SECRET?: string; // 签名密钥（图片代理等），通过 wrangler secret 配置
+  ATTACHMENTS?: R2Bucket; // 附件存储桶，未绑定时附件分块保存在 D1
+  MAX_MESSAGE_SIZE_BYTES?: string; // 单封邮件最大大小（字节），0 表示不限制
+  MAX_ATTACHMENT_SIZE_BYTES?: string; // 单个附件最大大小（字节），0 表示不限制
+  MAILBOX_MAX_EMAILS?: string; // 每个邮箱最多保存的邮件数量，0 表示不限制
+  MAILBOX_MAX_BYTES?: string; // 每个邮箱最多占用的空间（字节），0 表示不限制
+  MAILBOX_QUOTA_POLICY?: string; // 超出配额时的处理方式：reject 拒收，evict 删除最早的邮件
+  REJECT_UNKNOWN_RECIPIENTS?: string; // 是否拒收发往不存在或已过期邮箱的邮件（true/false）
+  SENDER_DOMAIN_DENYLIST?: string; // 拒收的发件域名，逗号分隔，包含子域名
+  REQUIRE_SENDER_AUTH?: string; // 是否要求 SPF 或 DKIM 验证通过（true/false）
+  AUTHSERV_ID?: string; // 收件服务在 Authentication-Results 中使用的 authserv-id，默认 mx.cloudflare.net
+  BLOCKED_SENDER_ACTION?: string; // 邮箱屏蔽的发件人来信时的处理方式：drop 静默丢弃，reject 拒收
+  ADMIN_TOKEN?: string; // 管理员令牌，用于查询拒收记录，通过 wrangler secret 配置
+  MAILBOX_RATE_LIMIT_WINDOW_SECONDS?: string; // 邮箱创建频率限制的滑动窗口长度（秒）
+  MAILBOX_RATE_LIMIT_PER_IP?: string; // 每个IP在窗口内最多创建的邮箱数量，0 表示不限制
+  MAILBOX_RATE_LIMIT_PER_SUBNET?: string; // 每个 IPv6 /64 网段在窗口内最多创建的邮箱数量，0 表示不限制
+  MAX_ACTIVE_MAILBOXES_PER_IP?: string; // 每个IP同时有效的邮箱数量上限，0 表示不限制
+  POW_DIFFICULTY?: string; // 工作量证明难度（哈希前导零比特数），0 表示关闭
+  POW_THRESHOLD?: string; // IP 在频率限制窗口内创建多少个邮箱后要求工作量证明，0 表示始终要求
+  POW_CHALLENGE_TTL_SECONDS?: string; // 工作量证明挑战的有效期（秒）
+  ADDRESS_STYLE?: string; // 随机邮箱地址的默认生成方式：random、pronounceable、words 或 prefix
+  ADDRESS_LENGTH?: string; // random 和 pronounceable 方式生成的地址长度
+}
+
+// 随机邮箱地址的生成方式：随机字母数字、可拼读的音节、形容词-名词-数字、指定前缀加随机后缀
+export type AddressStyle = 'random' | 'pronounceable' | 'words' | 'prefix';
+
+// 生成邮箱地址的参数
+export interface AddressOptions {
+  style: AddressStyle;
+  length: number; // random 和 pronounceable 方式的地址长度
+  prefix?: string; // prefix 方式使用的前缀
+}
+
+// 邮件保留策略：保留到邮箱过期、阅读后 N 分钟删除、首次阅读后立即删除、保留 N 天
+export type RetentionPolicy = 'expiry' | 'after_read' | 'burn' | 'days';
+
+// 邮箱的邮件保留设置，value 在 after_read 时为分钟数，在 days 时为天数，其他策略为 null
+export interface MailboxRetention {
+  policy: RetentionPolicy;
+  value: number | null;
 }
 
 // 邮箱类型
 export interface Mailbox {
   id: string;
-  address: string;
+  address: string; // 完整邮箱地址（用户名@域名）
+  domain: string;
   createdAt: number;
   expiresAt: number;
   ipAddress: string;
   lastAccessed: number;
+  retention: MailboxRetention;
+}
+
+// 邮箱通配规则（匹配同一域名下的多个用户名）
+export interface MailboxPattern {
+  id: string;
+  mailboxId: string;
+  domain: string;
+  pattern: string; // 用户名通配规则，例如 build-*
+  createdAt: number;
+}
+
+// 发件人规则的类型：allow 白名单，block 黑名单
+export type SenderRuleAction = 'allow' | 'block';
+
+// 邮箱的发件人规则
+export interface SenderRule {
+  id: string;
+  mailboxId: string;
+  action: SenderRuleAction;
+  pattern: string; // 完整地址（a@example.com）、域名（example.com，包含子域名）或通配规则（news-*@*.example.com）
+  createdAt: number;
+}
+
+// 收件地址匹配结果
+export interface MailboxMatch {
+  mailbox: Mailbox;
+  tag: string | null; // 子地址标签或通配规则匹配到的用户名
 }
 
 // 创建邮箱参数
 export interface CreateMailboxParams {
   address: string;
-  expiresInHours: number;
+  domain: string;
+  expiresInMinutes: number;
   ipAddress: string;
+  tokenHash: string; // 访问令牌的哈希值
+  retention?: MailboxRetention;
+}
+
+// 邮件地址
+export interface EmailAddress {
+  address: string;
+  name?: string;
+}
+
+// 解析得到的邮件地址（地址组只有名称和成员列表）
+export interface ParsedAddress {
+  address?: string;
+  name?: string;
+  group?: EmailAddress[];
+}
+
+// 从邮件中提取的验证信息
+export interface VerificationInfo {
+  code: string | null; // 一次性验证码
+  links: string[]; // 验证、确认或重置链接
+}
+
+// 邮箱中最近一封带有验证信息的邮件
+export interface LatestVerification extends VerificationInfo {
+  emailId: string;
+  subject: string;
+  fromAddress: string;
+  receivedAt: number;
+}
+
+// HTML 清理时被删除的内容
+export interface StrippedItem {
+  kind: 'element' | 'attribute' | 'url' | 'css';
+  name: string; // 元素名、属性名、链接协议或 CSS 属性
+  count: number;
+}
+
+// 远程内容统计
+export interface RemoteContentInfo {
+  count: number; // 远程图片和样式中的远程资源数量
+  blocked: boolean; // 是否已阻止加载
+}
+
+// HTML 清理结果
+export interface SanitizedHtml {
+  html: string;
+  stripped: StrippedItem[];
+  remoteContent: RemoteContentInfo;
+}
+
+// HTML 清理选项
+export interface SanitizeOptions {
+  // 远程图片地址改写函数（例如改写为代理地址），未提供时阻止所有远程内容
+  rewriteRemoteImage?: (url: string) => Promise<string>;
+  // cid: 引用改写函数，返回内联资源的访问地址
+  rewriteContentId?: (contentId: string) => Promise<string>;
+}
+
+// 邮件中的跟踪器：跟踪像素、带跟踪参数的地址或跳转链接
+export interface TrackerItem {
+  type: 'pixel' | 'param' | 'redirect';
+  url: string;
+  host: string;
+  params?: string[]; // 识别出的跟踪参数
+}
+
+// 去除跟踪后的链接
+export interface CleanLink {
+  original: string;
+  clean: string;
+}
+
+// 邮件隐私报告
+export interface PrivacyReport {
+  trackers: TrackerItem[];
+  links: CleanLink[];
 }
 
 // 邮件类型
@@ -35,6 +188,16 @@ export interface Email {
   receivedAt: number;
   hasAttachments: boolean;
   isRead: boolean;
+  rawSize?: number;
+  to?: EmailAddress[];
+  cc?: EmailAddress[];
+  replyTo?: EmailAddress[];
+  tag?: string | null;
+  verificationCode?: string | null;
+  verificationLinks?: string[];
+  stripped?: StrippedItem[]; // 使用 render=safe 获取时，被清理掉的 HTML 内容
+  remoteContent?: RemoteContentInfo; // 使用 render=safe 获取时的远程内容统计
+  privacyReport?: PrivacyReport | null; // 接收时生成的跟踪器报告，旧邮件为 null
 }
 
 // 保存邮件参数
@@ -47,6 +210,22 @@ export interface SaveEmailParams {
   textContent?: string;
   htmlContent?: string;
   hasAttachments?: boolean;
+  to?: EmailAddress[];
+  cc?: EmailAddress[];
+  replyTo?: EmailAddress[];
+  tag?: string | null;
+  verificationCode?: string | null;
+  verificationLinks?: string[];
+  privacyReport?: PrivacyReport;
+  rawSize?: number; // 原始邮件大小（字节），用于统计邮箱占用空间
+}
+
+// 邮箱使用量（上限为 0 表示不限制）
+export interface MailboxUsage {
+  emails: number;
+  bytes: number;
+  maxEmails: number;
+  maxBytes: number;
 }
 
 // 邮件列表项（不包含内容）
@@ -60,6 +239,97 @@ export interface EmailListItem {
   receivedAt: number;
   hasAttachments: boolean;
   isRead: boolean;
+  tag?: string | null;
+  verificationCode?: string | null;
+}
+
+// 邮件列表查询参数
+export interface EmailListOptions {
+  limit?: number;
+  after?: { receivedAt: number; id: string }; // 分页游标解码后的位置
+  since?: number; // 只返回此时间戳（含）之后收到的邮件
+  unread?: boolean;
+  hasAttachments?: boolean;
+  from?: string; // 发件人地址模糊匹配
+  tag?: string; // 子地址标签
+  sort?: 'asc' | 'desc';
+}
+
+// 邮件列表分页结果
+export interface EmailListPage {
+  emails: EmailListItem[];
+  nextCursor: string | null;
+}
+
+// 搜索摘要片段，highlight 为 true 的片段命中了搜索词
+export interface SearchSnippetSegment {
+  text: string;
+  highlight: boolean;
+}
+
+// 全文搜索结果
+export interface EmailSearchResult extends EmailListItem {
+  snippet: SearchSnippetSegment[];
+}
+
+// Webhook 类型（密钥只在创建时返回）
+export interface Webhook {
+  id: string;
+  mailboxId: string;
+  url: string;
+  createdAt: number;
+}
+
+// Webhook 投递状态
+export type WebhookDeliveryStatus = 'pending' | 'success' | 'failed';
+
+// Webhook 投递记录
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  emailId: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt: number | null;
+  lastStatusCode: number | null;
+  lastError: string | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// 待投递的 Webhook 任务
+export interface PendingWebhookDelivery {
+  id: string;
+  url: string;
+  secret: string;
+  payload: string;
+  attempts: number;
+}
+
+// Webhook 推送内容
+export interface WebhookPayload {
+  event: 'email.received';
+  mailbox: string;
+  email: {
+    id: string;
+    fromAddress: string;
+    fromName: string;
+    toAddress: string;
+    to: EmailAddress[];
+    cc: EmailAddress[];
+    subject: string;
+    receivedAt: number;
+    tag: string | null;
+    verificationCode: string | null;
+    verificationLinks: string[];
+    excerpt: string;
+    attachments: Array<{
+      id: string;
+      filename: string;
+      mimeType: string;
+      size: number;
+    }>;
+  };
 }
 
 // 附件类型
@@ -68,13 +338,28 @@ export interface Attachment {
   emailId: string;
   filename: string;
   mimeType: string;
-  content: string; // Base64编码的内容，仅用于小型附件
   size: number;
   createdAt: number;
   isLarge: boolean; // 是否为大型附件
   chunksCount: number; // 分块数量
+  contentId: string | null; // MIME Content-ID（不含尖括号）
+  disposition: AttachmentDisposition;
+  related: boolean; // 是否属于 multipart/related（HTML 引用的资源）
+  storage: AttachmentStorageType; // 附件内容所在的存储后端
 }
 
+// 附件存储后端
+export type AttachmentStorageType = 'r2' | 'd1';
+
+// 字节范围（HTTP Range 请求）
+export interface ByteRange {
+  offset: number;
+  length: number;
+}
+
+// 附件的 Content-Disposition
+export type AttachmentDisposition = 'attachment' | 'inline' | null;
+
 // 附件块类型
 export interface AttachmentChunk {
   id: string;
@@ -93,15 +378,22 @@ export interface AttachmentListItem {
   createdAt: number;
   isLarge: boolean;
   chunksCount: number;
+  contentId: string | null;
+  disposition: AttachmentDisposition;
+  related: boolean;
 }
 
 // 保存附件参数
 export interface SaveAttachmentParams {
+  id: string;
   emailId: string;
   filename: string;
   mimeType: string;
-  content: string; // Base64编码的内容
   size: number;
+  storage: AttachmentStorageType;
+  contentId?: string | null;
+  disposition?: AttachmentDisposition;
+  related?: boolean;
 }
 
 // API 响应类型
@@ -121,15 +413,17 @@ export interface ParsedEmail {
     address: string;
     name?: string;
   };
-  to: Array<{
-    address: string;
-    name?: string;
-  }>;
+  to?: ParsedAddress[];
+  cc?: ParsedAddress[];
+  replyTo?: ParsedAddress[];
   attachments?: Array<{
     filename: string;
     mimeType: string;
     content: ArrayBuffer;
     size?: number;
+    disposition?: AttachmentDisposition;
+    related?: boolean;
+    contentId?: string;
   }>;
 }
 
@@ -141,4 +435,25 @@ export interface SendEmailParams {
   subject: string;      // 邮件主题
   textContent?: string; // 纯文本内容
   htmlContent?: string; // HTML内容
-}
\ No newline at end of file
+}
+// 拒收邮件的规则
+export type RejectionRule =
+  | 'unknown_recipient'
+  | 'expired_mailbox'
+  | 'sender_domain'
+  | 'message_size'
+  | 'attachment_size'
+  | 'sender_auth'
+  | 'sender_blocked'
+  | 'mailbox_full';
+
+// 拒收记录
+export interface RejectedMail {
+  id: string;
+  rule: RejectionRule;
+  reason: string; // 返回给发件服务器的拒收原因
+  fromAddress: string;
+  toAddress: string;
+  size: number;
+  rejectedAt: number;
+}
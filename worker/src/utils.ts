@@ -1,3 +1,5 @@
+import { AddressStyle, ByteRange, MailboxRetention, RetentionPolicy } from './types';
+
 /**
  * 生成随机字符串
  * @param length 字符串长度
@@ -7,19 +9,24 @@ export function generateRandomString(length: number): string {
     const chars = 'abcdefghijklmnopqrstuvwxyz0123456789';
     let result = '';
     for (let i = 0; i < length; i++) {
-      result += chars.charAt(Math.floor(Math.random() * chars.length));
+      result += chars.charAt(randomInt(chars.length));
     }
     return result;
   }
   
   /**
-   * 生成随机邮箱地址
-   * @returns 随机邮箱地址
+   * 生成 [0, max) 范围内均匀分布的安全随机整数
+   * @param max 上限（不含），不超过 2^32
+   * @returns 随机整数
    */
-  export function generateRandomAddress(): string {
-    // 生成8-12位随机字符
-    const length = Math.floor(Math.random() * 5) + 8;
-    return generateRandomString(length);
+  export function randomInt(max: number): number {
+    // 拒绝落在最后一个不完整区间的值，避免取模带来的偏差
+    const limit = Math.floor(0x100000000 / max) * max;
+    const buffer = new Uint32Array(1);
+    do {
+      crypto.getRandomValues(buffer);
+    } while (buffer[0] >= limit);
+    return buffer[0] % max;
   }
   
   /**
@@ -40,11 +47,11 @@ export function generateRandomString(length: number): string {
   
   /**
    * 计算过期时间戳
-   * @param hours 小时数
+   * @param minutes 分钟数
    * @returns 过期时间戳
    */
-  export function calculateExpiryTimestamp(hours: number): number {
-    return getCurrentTimestamp() + (hours * 60 * 60);
+  export function calculateExpiryTimestamp(minutes: number): number {
+    return getCurrentTimestamp() + Math.round(minutes * 60);
   }
   
   /**
@@ -58,6 +65,91 @@ export function generateRandomString(length: number): string {
     return regex.test(address);
   }
   
+  /**
+   * 检查邮箱用户名部分是否有效
+   * @param localPart 用户名部分
+   * @returns 是否有效
+   */
+  export function isValidLocalPart(localPart: string): boolean {
+    return /^[a-z0-9._-]{1,64}$/.test(localPart);
+  }
+  
+  /**
+   * 检查随机地址的前缀是否有效（需要留出随机后缀的长度）
+   * @param prefix 前缀
+   * @returns 是否有效
+   */
+  export function isValidAddressPrefix(prefix: string): boolean {
+    return /^[a-z0-9][a-z0-9._-]{0,39}$/.test(prefix);
+  }
+  
+  // 支持的地址生成方式
+  const ADDRESS_STYLES: AddressStyle[] = ['random', 'pronounceable', 'words', 'prefix'];
+  
+  /**
+   * 解析地址生成方式
+   * @param input 输入值
+   * @returns 生成方式，无效时返回 null
+   */
+  export function parseAddressStyle(input: unknown): AddressStyle | null {
+    const style = typeof input === 'string' ? input.trim().toLowerCase() : '';
+    return ADDRESS_STYLES.includes(style as AddressStyle) ? style as AddressStyle : null;
+  }
+  
+  /**
+   * 检查邮箱通配规则是否有效（用户名部分，* 匹配任意字符）
+   * @param pattern 通配规则
+   * @returns 是否有效
+   */
+  export function isValidAddressPattern(pattern: string): boolean {
+    return /^[a-z0-9._*-]{1,64}$/.test(pattern) && pattern.includes('*') && /[a-z0-9]/.test(pattern);
+  }
+  
+  /**
+   * 检查发件人规则是否有效：完整地址、域名或包含 * 的通配规则
+   * @param pattern 发件人规则（小写）
+   * @returns 是否有效
+   */
+  export function isValidSenderPattern(pattern: string): boolean {
+    if (!/^[a-z0-9._%+*@-]{1,254}$/.test(pattern) || !/[a-z0-9]/.test(pattern)) return false;
+    
+    const atCount = pattern.split('@').length - 1;
+    if (atCount > 1) return false;
+    
+    // 不含通配符的域名规则至少需要包含一个点
+    return atCount === 1 || pattern.includes('*') || pattern.includes('.');
+  }
+  
+  // 各保留策略的取值范围，null 表示该策略不需要取值
+  const RETENTION_VALUE_RANGES: Record<RetentionPolicy, [number, number] | null> = {
+    expiry: null,
+    after_read: [1, 7 * 24 * 60], // 分钟
+    burn: null,
+    days: [1, 365], // 天
+  };
+  
+  /**
+   * 解析并校验邮件保留设置
+   * @param input 请求中的保留设置，例如 { policy: 'after_read', value: 30 }
+   * @returns 保留设置，无效时返回 null
+   */
+  export function parseRetention(input: unknown): MailboxRetention | null {
+    if (!input || typeof input !== 'object') return null;
+    
+    const { policy, value } = input as { policy?: unknown; value?: unknown };
+    if (typeof policy !== 'string' || !(policy in RETENTION_VALUE_RANGES)) return null;
+    
+    const range = RETENTION_VALUE_RANGES[policy as RetentionPolicy];
+    if (!range) {
+      return { policy: policy as RetentionPolicy, value: null };
+    }
+    
+    const number = Number(value);
+    if (!Number.isInteger(number) || number < range[0] || number > range[1]) return null;
+    
+    return { policy: policy as RetentionPolicy, value: number };
+  }
+  
   /**
    * 提取邮箱地址的用户名部分
    * @param address 完整邮箱地址
@@ -163,4 +255,204 @@ export function generateRandomString(length: number): string {
         error: `邮件发送失败: ${error instanceof Error ? error.message : String(error)}`,
       };
     }
-  }
\ No newline at end of file
+  }
+  /**
+   * 将HTML内容转换为纯文本，用于全文索引
+   * @param html HTML内容
+   * @returns 纯文本
+   */
+  export function htmlToText(html: string): string {
+    return html
+      .replace(/<(script|style|head)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+      .replace(/<br\s*\/?>|<\/(p|div|li|tr|h[1-6])>/gi, '\n')
+      .replace(/<[^>]+>/g, ' ')
+      .replace(/&nbsp;/gi, ' ')
+      .replace(/&lt;/gi, '<')
+      .replace(/&gt;/gi, '>')
+      .replace(/&quot;/gi, '"')
+      .replace(/&#39;|&apos;/gi, "'")
+      .replace(/&#(\d+);/g, (_, code) => Number(code) <= 0x10ffff ? String.fromCodePoint(Number(code)) : ' ')
+      .replace(/&amp;/gi, '&')
+      .replace(/[ \t\r\f\v]+/g, ' ')
+      .replace(/\s*\n\s*/g, '\n')
+      .trim();
+  }
+  
+  /**
+   * 将用户输入转换为安全的 FTS5 查询，每个词按前缀匹配
+   * @param query 用户输入
+   * @returns FTS5 查询语句，没有有效词时返回空字符串
+   */
+  export function buildFtsQuery(query: string): string {
+    return query
+      .split(/\s+/)
+      .map(term => term.replace(/"/g, '').trim())
+      .filter(Boolean)
+      .map(term => `"${term}"*`)
+      .join(' ');
+  }
+  
+  /**
+   * 编码邮件列表分页游标
+   * @param receivedAt 最后一封邮件的接收时间
+   * @param id 最后一封邮件的ID
+   * @returns 不透明的游标字符串
+   */
+  export function encodeCursor(receivedAt: number, id: string): string {
+    return btoa(`${receivedAt}:${id}`).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  }
+  
+  /**
+   * 解码邮件列表分页游标
+   * @param cursor 游标字符串
+   * @returns 游标位置，无效时返回 null
+   */
+  export function decodeCursor(cursor: string): { receivedAt: number; id: string } | null {
+    try {
+      const decoded = atob(cursor.replace(/-/g, '+').replace(/_/g, '/'));
+      const separator = decoded.indexOf(':');
+      const receivedAt = Number(decoded.substring(0, separator));
+      const id = decoded.substring(separator + 1);
+      
+      if (separator <= 0 || !Number.isInteger(receivedAt) || !id) return null;
+      return { receivedAt, id };
+    } catch {
+      return null;
+    }
+  }
+  
+  /**
+   * 将字节数据转换为十六进制字符串
+   * @param buffer 字节数据
+   * @returns 十六进制字符串
+   */
+  export function toHex(buffer: ArrayBuffer | Uint8Array): string {
+    const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+    return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+  }
+
+  /**
+   * 生成邮箱访问令牌
+   * @returns 随机令牌（64位十六进制）
+   */
+  export function generateAccessToken(): string {
+    const bytes = new Uint8Array(32);
+    crypto.getRandomValues(bytes);
+    return toHex(bytes);
+  }
+
+  /**
+   * 计算访问令牌的哈希值，数据库中只保存哈希
+   * @param token 访问令牌
+   * @returns SHA-256 哈希（十六进制）
+   */
+  export async function hashToken(token: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+    return toHex(digest);
+  }
+
+  /**
+   * 常量时间比较两个字符串，避免时序攻击
+   * @param a 字符串A
+   * @param b 字符串B
+   * @returns 是否相等
+   */
+  export function timingSafeEqual(a: string, b: string): boolean {
+    if (a.length !== b.length) return false;
+    let diff = 0;
+    for (let i = 0; i < a.length; i++) {
+      diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+    }
+    return diff === 0;
+  }
+  
+  /**
+   * 将 ArrayBuffer 转换为 Base64 字符串
+   * @param buffer ArrayBuffer 数据
+   * @returns Base64 字符串
+   */
+  export function arrayBufferToBase64(buffer: ArrayBuffer): string {
+    const bytes = new Uint8Array(buffer);
+    let binary = '';
+    for (let i = 0; i < bytes.byteLength; i++) {
+      binary += String.fromCharCode(bytes[i]);
+    }
+    return btoa(binary);
+  }
+  
+  /**
+   * 将 Base64 字符串解码为二进制数据
+   * @param base64 Base64 字符串
+   * @returns 二进制数据
+   */
+  export function base64ToBytes(base64: string): Uint8Array<ArrayBuffer> {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+  }
+  
+  /**
+   * 规范化 Content-ID：去掉首尾空白和尖括号
+   * @param contentId 原始 Content-ID，例如 <image001@example.com>
+   * @returns 规范化后的 Content-ID，为空时返回 null
+   */
+  export function normalizeContentId(contentId: string | null | undefined): string | null {
+    const normalized = (contentId || '').trim().replace(/^<|>$/g, '').trim();
+    return normalized || null;
+  }
+  
+  /**
+   * 计算 HMAC-SHA256 签名
+   * @param secret 密钥
+   * @param message 待签名内容
+   * @returns 签名（十六进制）
+   */
+  export async function hmacSha256(secret: string, message: string): Promise<string> {
+    const encoder = new TextEncoder();
+    const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+    const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(message));
+    return toHex(signature);
+  }
+  
+  /**
+   * 解析 HTTP Range 请求头，只支持单个字节范围
+   * @param header Range 请求头
+   * @param size 内容总大小
+   * @returns 字节范围；未请求范围或格式不支持时返回 null，范围无法满足时返回 'unsatisfiable'
+   */
+  export function parseRangeHeader(header: string | undefined, size: number): ByteRange | 'unsatisfiable' | null {
+    const match = header?.trim().match(/^bytes=(\d*)-(\d*)$/i);
+    if (!match || (!match[1] && !match[2])) return null;
+    
+    let start: number;
+    let end: number;
+    if (!match[1]) {
+      // bytes=-N：最后 N 个字节
+      const suffix = parseInt(match[2], 10);
+      if (suffix === 0) return 'unsatisfiable';
+      start = Math.max(size - suffix, 0);
+      end = size - 1;
+    } else {
+      start = parseInt(match[1], 10);
+      end = match[2] ? Math.min(parseInt(match[2], 10), size - 1) : size - 1;
+    }
+    
+    if (start >= size || start > end) return 'unsatisfiable';
+    return { offset: start, length: end - start + 1 };
+  }
+  
+  /**
+   * 生成 Content-Disposition 响应头，非 ASCII 文件名使用 RFC 5987 的 filename* 编码
+   * @param type inline 或 attachment
+   * @param filename 文件名
+   * @returns 响应头的值
+   */
+  export function buildContentDisposition(type: 'inline' | 'attachment', filename: string): string {
+    // 不支持 filename* 的客户端使用只包含 ASCII 字符的文件名
+    const fallback = filename.replace(/[^\x20-\x7e]|["\\]/g, '_') || 'attachment';
+    const encoded = encodeURIComponent(filename).replace(/['()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+    return `${type}; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+  }
@@ -0,0 +1,139 @@
+import { D1Database } from '@cloudflare/workers-types';
+import { Mailbox, Email, WebhookPayload, PendingWebhookDelivery } from './types';
+import { createWebhookDeliveries, getDueWebhookDeliveries, updateWebhookDelivery } from './database';
+import { getCurrentTimestamp, hmacSha256, htmlToText } from './utils';
+
+// 投递失败后的重试间隔（秒），全部用完后标记为失败
+const RETRY_DELAYS = [60, 5 * 60, 30 * 60, 2 * 60 * 60, 6 * 60 * 60];
+
+// 正文摘要的最大长度
+const EXCERPT_LENGTH = 500;
+
+// 单次投递的超时时间（毫秒）
+const DELIVERY_TIMEOUT_MS = 10000;
+
+// 定时任务每次最多重试的投递数量
+const RETRY_BATCH_SIZE = 50;
+
+/**
+ * 生成 Webhook 推送内容
+ * @param mailbox 收件邮箱
+ * @param email 已保存的邮件
+ * @param attachments 已保存的附件
+ * @returns 推送内容
+ */
+export function buildWebhookPayload(mailbox: Mailbox, email: Email, attachments: WebhookPayload['email']['attachments']): WebhookPayload {
+  const body = email.textContent || htmlToText(email.htmlContent || '');
+  const excerpt = body.replace(/\s+/g, ' ').trim();
+  
+  return {
+    event: 'email.received',
+    mailbox: mailbox.address,
+    email: {
+      id: email.id,
+      fromAddress: email.fromAddress,
+      fromName: email.fromName,
+      toAddress: email.toAddress,
+      to: email.to || [],
+      cc: email.cc || [],
+      subject: email.subject,
+      receivedAt: email.receivedAt,
+      tag: email.tag || null,
+      verificationCode: email.verificationCode || null,
+      verificationLinks: email.verificationLinks || [],
+      excerpt: excerpt.length > EXCERPT_LENGTH ? `${excerpt.substring(0, EXCERPT_LENGTH)}…` : excerpt,
+      attachments,
+    },
+  };
+}
+
+/**
+ * 为新邮件创建投递任务
+ * 首次投递由收件流程立即发起，任务的下次尝试时间设为第一个重试间隔之后，
+ * 首次投递仍在进行时定时任务不会重复发送；首次投递未能记录结果时由定时任务接手
+ * @param db 数据库实例
+ * @param mailbox 收件邮箱
+ * @param payload 推送内容
+ * @returns 待投递任务列表，邮箱没有 Webhook 时为空
+ */
+export async function queueWebhookDeliveries(db: D1Database, mailbox: Mailbox, payload: WebhookPayload): Promise<PendingWebhookDelivery[]> {
+  return createWebhookDeliveries(db, mailbox.id, payload.email.id, JSON.stringify(payload), RETRY_DELAYS[0]);
+}
+
+/**
+ * 投递一批 Webhook 任务
+ * @param db 数据库实例
+ * @param deliveries 待投递任务列表
+ */
+export async function deliverWebhooks(db: D1Database, deliveries: PendingWebhookDelivery[]): Promise<void> {
+  await Promise.all(deliveries.map(delivery => deliverWebhook(db, delivery)));
+}
+
+/**
+ * 重试已到时间的失败投递（由定时任务调用）
+ * @param db 数据库实例
+ * @returns 本次重试的投递数量
+ */
+export async function retryWebhookDeliveries(db: D1Database): Promise<number> {
+  const deliveries = await getDueWebhookDeliveries(db, RETRY_BATCH_SIZE);
+  await deliverWebhooks(db, deliveries);
+  return deliveries.length;
+}
+
+/**
+ * 投递单个 Webhook 任务并记录结果
+ * 请求头 X-Webhook-Signature 为 t=时间戳,v1=签名，签名为 HMAC-SHA256(密钥, "时间戳.请求体")
+ * @param db 数据库实例
+ * @param delivery 投递任务
+ */
+async function deliverWebhook(db: D1Database, delivery: PendingWebhookDelivery): Promise<void> {
+  const attempts = delivery.attempts + 1;
+  let statusCode: number | null = null;
+  let error: string | null = null;
+  
+  try {
+    const timestamp = getCurrentTimestamp();
+    const signature = await hmacSha256(delivery.secret, `${timestamp}.${delivery.payload}`);
+    
+    const response = await fetch(delivery.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'temp-mail-webhook',
+        'X-Webhook-Event': 'email.received',
+        'X-Webhook-Delivery': delivery.id,
+        'X-Webhook-Signature': `t=${timestamp},v1=${signature}`,
+      },
+      body: delivery.payload,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+    
+    statusCode = response.status;
+    if (!response.ok) {
+      error = `HTTP ${response.status}`;
+    }
+  } catch (deliveryError) {
+    error = deliveryError instanceof Error ? deliveryError.message : String(deliveryError);
+  }
+  
+  try {
+    if (!error) {
+      await updateWebhookDelivery(db, delivery.id, { status: 'success', attempts, nextAttemptAt: null, statusCode, error: null });
+      return;
+    }
+    
+    console.error(`Webhook 投递失败 (${delivery.id}, 第 ${attempts} 次):`, error);
+    
+    // 按退避间隔安排下一次重试，次数用完后标记为失败
+    const delay = RETRY_DELAYS[attempts - 1];
+    await updateWebhookDelivery(db, delivery.id, {
+      status: delay === undefined ? 'failed' : 'pending',
+      attempts,
+      nextAttemptAt: delay === undefined ? null : getCurrentTimestamp() + delay,
+      statusCode,
+      error,
+    });
+  } catch (updateError) {
+    console.error('记录 Webhook 投递结果失败:', updateError);
+  }
+}
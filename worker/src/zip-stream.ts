@@ -0,0 +1,189 @@
+// ZIP 文件中的一个条目
+export interface ZipEntry {
+  name: string;
+  modifiedAt: number; // 修改时间（秒级时间戳）
+  open: () => Promise<ReadableStream<Uint8Array> | null>;
+}
+
+// 已写入的条目信息，用于生成中央目录
+interface WrittenEntry {
+  name: Uint8Array;
+  time: number;
+  date: number;
+  crc: number;
+  size: number;
+  offset: number;
+}
+
+// 通用标志：第 3 位表示大小和 CRC 写在数据之后，第 11 位表示文件名为 UTF-8
+const GENERAL_PURPOSE_FLAGS = 0x0808;
+
+// ZIP 规范版本 2.0
+const ZIP_VERSION = 20;
+
+// 不使用 ZIP64 时单个文件和整个压缩包的大小上限
+const MAX_ZIP_SIZE = 0xffffffff;
+
+// CRC-32 查表
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let c = i;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[i] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * 生成流式 ZIP 压缩包（不压缩，逐个读取条目内容，不会一次性加载所有文件）
+ * @param entries 条目列表
+ * @returns ZIP 内容流
+ */
+export function createZipStream(entries: ZipEntry[]): ReadableStream<Uint8Array> {
+  const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+  const writer = writable.getWriter();
+  
+  writeZip(writer, entries).catch(error => {
+    console.error('生成 ZIP 失败:', error);
+    writer.abort(error).catch(() => {});
+  });
+  
+  return readable;
+}
+
+/**
+ * 为重复的文件名添加序号，例如 report.pdf、report (1).pdf
+ * @param filename 文件名
+ * @param used 已使用的文件名（小写）
+ * @returns 不重复的文件名
+ */
+export function dedupeFilename(filename: string, used: Set<string>): string {
+  // 去掉路径分隔符和控制字符，避免解压到其他目录
+  const safeName = filename.replace(/[\u0000-\u001f\\/]/g, '_').replace(/^\.+/, '').trim() || 'attachment';
+  const dot = safeName.lastIndexOf('.');
+  const base = dot > 0 ? safeName.substring(0, dot) : safeName;
+  const extension = dot > 0 ? safeName.substring(dot) : '';
+  
+  let candidate = safeName;
+  for (let i = 1; used.has(candidate.toLowerCase()); i++) {
+    candidate = `${base} (${i})${extension}`;
+  }
+  
+  used.add(candidate.toLowerCase());
+  return candidate;
+}
+
+/**
+ * 依次写入所有条目和中央目录
+ * @param writer 输出流
+ * @param entries 条目列表
+ */
+async function writeZip(writer: WritableStreamDefaultWriter<Uint8Array>, entries: ZipEntry[]): Promise<void> {
+  const encoder = new TextEncoder();
+  const written: WrittenEntry[] = [];
+  let offset = 0;
+  
+  const write = async (chunk: Uint8Array) => {
+    await writer.write(chunk);
+    offset += chunk.byteLength;
+  };
+  
+  for (const entry of entries) {
+    const stream = await entry.open();
+    if (!stream) continue;
+    
+    const name = encoder.encode(entry.name);
+    const { time, date } = toDosDateTime(entry.modifiedAt);
+    const headerOffset = offset;
+    
+    // 本地文件头，CRC 和大小写在数据描述符中
+    const header = new DataView(new ArrayBuffer(30));
+    header.setUint32(0, 0x04034b50, true);
+    header.setUint16(4, ZIP_VERSION, true);
+    header.setUint16(6, GENERAL_PURPOSE_FLAGS, true);
+    header.setUint16(8, 0, true); // 不压缩
+    header.setUint16(10, time, true);
+    header.setUint16(12, date, true);
+    header.setUint16(26, name.byteLength, true);
+    await write(new Uint8Array(header.buffer));
+    await write(name);
+    
+    // 边读取边计算 CRC
+    let crc = 0xffffffff;
+    let size = 0;
+    const reader = stream.getReader();
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      for (let i = 0; i < value.byteLength; i++) {
+        crc = CRC_TABLE[(crc ^ value[i]) & 0xff] ^ (crc >>> 8);
+      }
+      size += value.byteLength;
+      await write(value);
+    }
+    crc = (crc ^ 0xffffffff) >>> 0;
+    
+    if (offset > MAX_ZIP_SIZE) {
+      throw new Error('压缩包超过 4GB，不支持');
+    }
+    
+    // 数据描述符
+    const descriptor = new DataView(new ArrayBuffer(16));
+    descriptor.setUint32(0, 0x08074b50, true);
+    descriptor.setUint32(4, crc, true);
+    descriptor.setUint32(8, size, true);
+    descriptor.setUint32(12, size, true);
+    await write(new Uint8Array(descriptor.buffer));
+    
+    written.push({ name, time, date, crc, size, offset: headerOffset });
+  }
+  
+  // 中央目录
+  const directoryOffset = offset;
+  for (const entry of written) {
+    const record = new DataView(new ArrayBuffer(46));
+    record.setUint32(0, 0x02014b50, true);
+    record.setUint16(4, ZIP_VERSION, true);
+    record.setUint16(6, ZIP_VERSION, true);
+    record.setUint16(8, GENERAL_PURPOSE_FLAGS, true);
+    record.setUint16(10, 0, true);
+    record.setUint16(12, entry.time, true);
+    record.setUint16(14, entry.date, true);
+    record.setUint32(16, entry.crc, true);
+    record.setUint32(20, entry.size, true);
+    record.setUint32(24, entry.size, true);
+    record.setUint16(28, entry.name.byteLength, true);
+    record.setUint32(42, entry.offset, true);
+    await write(new Uint8Array(record.buffer));
+    await write(entry.name);
+  }
+  
+  // 中央目录结束记录
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, written.length, true);
+  end.setUint16(10, written.length, true);
+  end.setUint32(12, offset - directoryOffset, true);
+  end.setUint32(16, directoryOffset, true);
+  await write(new Uint8Array(end.buffer));
+  
+  await writer.close();
+}
+
+/**
+ * 将时间戳转换为 ZIP 使用的 DOS 日期和时间
+ * @param timestamp 秒级时间戳
+ * @returns DOS 时间和日期
+ */
+function toDosDateTime(timestamp: number): { time: number; date: number } {
+  const date = new Date(timestamp * 1000);
+  const year = Math.max(date.getUTCFullYear(), 1980);
+  
+  return {
+    time: (date.getUTCHours() << 11) | (date.getUTCMinutes() << 5) | Math.floor(date.getUTCSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getUTCMonth() + 1) << 5) | date.getUTCDate(),
+  };
+}